@@ -11,7 +11,25 @@ import { config } from 'dotenv';
 import { TranslateTool } from './tools/translate.js';
 import { NotesTool } from './tools/notes.js';
 import { SearchTool } from './tools/search.js';
-import { ErrorCode as ObsidianErrorCode } from './types/index.js';
+import { BackupsTool } from './tools/backups.js';
+import { PropertiesTool } from './tools/properties.js';
+import { RateLimiter } from './utils/rate-limiter.js';
+import {
+  ErrorCode as ObsidianErrorCode,
+  TranslationProviderConfig,
+  TranslationProviderType,
+  BackupRetention,
+  BackupInfo,
+  TranslationRequest,
+  TranslationResult,
+  TranslationControl,
+  TranslationJob,
+  BatchTranslationRequest,
+  BatchTranslationReport,
+  FileChangePreview,
+  NoteMoveResult,
+  NoteTarget
+} from './types/index.js';
 
 // 環境変数を読み込み
 config();
@@ -26,6 +44,8 @@ class ObsidianMCPServer {
   private translateTool!: TranslateTool;
   private notesTool!: NotesTool;
   private searchTool!: SearchTool;
+  private backupsTool!: BackupsTool;
+  private propertiesTool!: PropertiesTool;
 
   constructor() {
     this.server = new Server(
@@ -49,7 +69,18 @@ class ObsidianMCPServer {
    * 環境変数の検証
    */
   private validateEnvironment(): void {
-    const requiredEnvVars = ['OBSIDIAN_VAULT_PATH', 'ANTHROPIC_API_KEY'];
+    const requiredEnvVars = ['OBSIDIAN_VAULT_PATH'];
+
+    // 翻訳プロバイダーごとに必要な環境変数を追加
+    switch (process.env.TRANSLATION_PROVIDER || 'anthropic') {
+      case 'anthropic':
+        requiredEnvVars.push('ANTHROPIC_API_KEY');
+        break;
+      case 'openai-compatible':
+        requiredEnvVars.push('OPENAI_BASE_URL', 'TRANSLATION_MODEL');
+        break;
+    }
+
     const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
     
     if (missingVars.length > 0) {
@@ -62,23 +93,45 @@ class ObsidianMCPServer {
    */
   private initializeTools(): void {
     const vaultPath = process.env.OBSIDIAN_VAULT_PATH!;
-    const anthropicApiKey = process.env.ANTHROPIC_API_KEY!;
-    const backupRetentionDays = parseInt(process.env.BACKUP_RETENTION_DAYS || '30');
+    const backupRetention: BackupRetention = {
+      maxAgeDays: parseInt(process.env.BACKUP_RETENTION_DAYS || '30'),
+      maxVersionsPerNote: parseInt(process.env.BACKUP_MAX_VERSIONS_PER_NOTE || '50'),
+      maxTotalBytes: parseInt(process.env.BACKUP_MAX_SIZE_MB || '100') * 1024 * 1024
+    };
     
     // Vault名を環境変数から取得（設定されていない場合はパスから推測）
     const configuredVault = process.env.OBSIDIAN_VAULT_NAME || 
       vaultPath.split('/').pop() || 
       'DefaultVault';
 
+    const provider = (process.env.TRANSLATION_PROVIDER || 'anthropic') as TranslationProviderType;
+    const providerConfig: TranslationProviderConfig = {
+      provider,
+      model: process.env.TRANSLATION_MODEL,
+      apiKey: provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL,
+      maxRetries: parseInt(process.env.TRANSLATION_MAX_RETRIES || '4')
+    };
+
+    // API呼び出しの同時実行数と1分あたりのリクエスト数はプロセス全体で制限する
+    const rateLimiter = new RateLimiter(
+      parseInt(process.env.TRANSLATION_MAX_CONCURRENCY || '4'),
+      parseInt(process.env.TRANSLATION_REQUESTS_PER_MINUTE || '50')
+    );
+
     this.translateTool = new TranslateTool(
       vaultPath,
-      anthropicApiKey,
+      providerConfig,
       configuredVault,
-      backupRetentionDays
+      backupRetention,
+      process.env.GLOSSARY_NOTE_PATH,
+      rateLimiter
     );
 
-    this.notesTool = new NotesTool(vaultPath, backupRetentionDays);
-    this.searchTool = new SearchTool(vaultPath, backupRetentionDays);
+    this.notesTool = new NotesTool(vaultPath, backupRetention);
+    this.searchTool = new SearchTool(vaultPath, backupRetention);
+    this.backupsTool = new BackupsTool(vaultPath, backupRetention);
+    this.propertiesTool = new PropertiesTool(vaultPath, backupRetention);
   }
 
   /**
@@ -90,23 +143,54 @@ class ObsidianMCPServer {
       return {
         tools: [
           TranslateTool.getToolDefinition(),
+          TranslateTool.getBatchToolDefinition(),
+          TranslateTool.getStaleToolDefinition(),
+          TranslateTool.getJobToolDefinition(),
+          TranslateTool.getListJobsToolDefinition(),
+          TranslateTool.getCancelJobToolDefinition(),
           NotesTool.getCreateNoteToolDefinition(),
           NotesTool.getReadNoteToolDefinition(),
           NotesTool.getUpdateNoteToolDefinition(),
+          PropertiesTool.getUpdatePropertiesToolDefinition(),
+          NotesTool.getMoveNoteToolDefinition(),
+          NotesTool.getRenameNoteToolDefinition(),
+          NotesTool.getDeleteNoteToolDefinition(),
           SearchTool.getSearchToolDefinition(),
           SearchTool.getSearchByTagsToolDefinition(),
+          BackupsTool.getNoteHistoryToolDefinition(),
+          BackupsTool.getListBackupsToolDefinition(),
+          BackupsTool.getDiffBackupToolDefinition(),
+          BackupsTool.getRestoreBackupToolDefinition(),
         ],
       };
     });
 
     // ツール実行の処理
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
+      // 同期実行の翻訳はリクエストのキャンセルに従い、進捗トークンがあれば進捗を通知する
+      const control = this.createTranslationControl(request.params._meta?.progressToken, extra.signal);
+
       try {
         switch (name) {
           case 'translate_obsidian_note':
-            return await this.handleTranslateNote(args);
+            return await this.handleTranslateNote(args, control);
+          
+          case 'translate_obsidian_notes_batch':
+            return await this.handleTranslateNotesBatch(args, control);
+
+          case 'list_stale_translations':
+            return await this.handleListStaleTranslations(args);
+
+          case 'get_translation_job':
+            return await this.handleGetTranslationJob(args);
+
+          case 'list_translation_jobs':
+            return await this.handleListTranslationJobs(args);
+
+          case 'cancel_translation_job':
+            return await this.handleCancelTranslationJob(args);
           
           case 'create_obsidian_note':
             return await this.handleCreateNote(args);
@@ -116,12 +200,36 @@ class ObsidianMCPServer {
           
           case 'update_obsidian_note':
             return await this.handleUpdateNote(args);
+
+          case 'update_obsidian_note_properties':
+            return await this.handleUpdateNoteProperties(args);
+
+          case 'move_obsidian_note':
+            return await this.handleMoveNote(args);
+
+          case 'rename_obsidian_note':
+            return await this.handleRenameNote(args);
+
+          case 'delete_obsidian_note':
+            return await this.handleDeleteNote(args);
           
           case 'search_obsidian_notes':
             return await this.handleSearchNotes(args);
           
           case 'search_obsidian_notes_by_tags':
             return await this.handleSearchNotesByTags(args);
+
+          case 'get_note_history':
+            return await this.handleGetNoteHistory(args);
+
+          case 'list_note_backups':
+            return await this.handleListNoteBackups(args);
+
+          case 'diff_note_backup':
+            return await this.handleDiffNoteBackup(args);
+
+          case 'restore_note_backup':
+            return await this.handleRestoreNoteBackup(args);
           
           default:
             throw new McpError(
@@ -143,31 +251,380 @@ class ObsidianMCPServer {
     });
   }
 
+  /**
+   * 翻訳のキャンセルと進捗の通知を作成
+   * @param progressToken リクエストの進捗トークン（ない場合は進捗を通知しない）
+   * @param signal リクエストのキャンセル
+   */
+  private createTranslationControl(progressToken: string | number | undefined, signal: AbortSignal): TranslationControl {
+    return {
+      signal,
+      onProgress: progressToken === undefined
+        ? undefined
+        : progress => {
+            this.server.notification({
+              method: 'notifications/progress',
+              params: { progressToken, progress: progress.completed, total: progress.total }
+            }).catch(() => undefined);
+          }
+    };
+  }
+
   /**
    * 翻訳ノートの処理
    */
-  private async handleTranslateNote(args: any) {
-    const { url, targetLanguage, mode } = args;
+  private async handleTranslateNote(args: any, control?: TranslationControl) {
+    const {
+      url,
+      section,
+      blockId,
+      startLine,
+      endLine,
+      targetLanguage,
+      mode,
+      parallelLayout,
+      interleavedStyle,
+      translateFields,
+      useTranslationMemory,
+      glossaryNote,
+      verifyStructure,
+      rewriteLinks,
+      force,
+      expectedHash,
+      dryRun,
+      async: runAsync
+    } = args;
     
     if (!url) {
       throw new McpError(ErrorCode.InvalidParams, 'URL is required');
     }
 
-    const result = await this.translateTool.execute({
+    const request: TranslationRequest = {
       url,
+      section,
+      blockId,
+      startLine,
+      endLine,
       targetLanguage,
-      mode
-    });
+      mode,
+      parallelLayout,
+      interleavedStyle,
+      translateFields,
+      useTranslationMemory,
+      glossaryNote,
+      verifyStructure,
+      rewriteLinks,
+      force,
+      expectedHash,
+      dryRun
+    };
+
+    if (runAsync) {
+      const job = await this.translateTool.submitJob({ type: 'note', request });
+      return this.formatSubmittedJob(job);
+    }
+
+    const result = await this.translateTool.execute(request, control);
+    return this.formatTranslationResult(url, result);
+  }
+
+  /**
+   * 翻訳結果を表示用のテキストに整形
+   * @param url 翻訳したノートのURL
+   * @param result 翻訳結果
+   */
+  private formatTranslationResult(url: string, result: TranslationResult) {
+    const violationsText = result.glossaryViolations.length > 0
+      ? `⚠️ 用語集違反 (${result.glossaryViolations.length}件):\n` +
+        result.glossaryViolations.map(v =>
+          v.doNotTranslate
+            ? `- ${v.source}: 翻訳せずに残す必要があります\n`
+            : `- ${v.source}: 「${v.expected}」と訳す必要があります\n`
+        ).join('') + '\n'
+      : '';
+
+    const regionText = result.region ? `📍 範囲: ${result.region}\n` : '';
+    const usageText = `📊 トークン: 入力 ${result.usage.inputTokens} / 出力 ${result.usage.outputTokens}（${result.usage.requests}回）` +
+      ` / セッション累計: 入力 ${result.sessionUsage.inputTokens} / 出力 ${result.sessionUsage.outputTokens}\n`;
+
+    if (result.skipped) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⏭️ 翻訳をスキップしました（ファイルは変更されていません）\n\n` +
+                  `📁 ファイル: ${url}\n` +
+                  regionText +
+                  `💬 理由: ${result.skipped}\n\n` +
+                  `翻訳し直す場合は force: true を指定してください`
+          }
+        ]
+      };
+    }
+
+    if (result.structureMismatches.length > 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ 再翻訳しても翻訳の構造が原文と一致しないため、ファイルを変更しませんでした\n\n` +
+                  `📁 ファイル: ${url}\n` +
+                  regionText +
+                  usageText + '\n' +
+                  `構造の不一致 (${result.structureMismatches.length}件):\n` +
+                  result.structureMismatches.map(m =>
+                    `- ${m.element}: 原文 ${m.expected} / 訳文 ${m.actual}\n`
+                  ).join('')
+          }
+        ]
+      };
+    }
+
+    const fieldsText = result.translatedFields.length > 0
+      ? `🏷️ 翻訳したプロパティ: ${result.translatedFields.join(', ')}\n`
+      : '';
+    const sourceText = result.sourceLanguage ? `🌐 原文の言語: ${result.sourceLanguage}\n` : '';
+    const linksText = result.links
+      ? `🔗 リンクの書き換え: ${result.links.rewritten}件\n` +
+        (result.links.untranslated.length > 0
+          ? `⚠️ 翻訳版がないリンク先 (${result.links.untranslated.length}件):\n` +
+            result.links.untranslated.map(path => `- ${path}\n`).join('')
+          : '')
+      : '';
+    const retriedText = result.retried ? `🔁 構造の不一致を検出したため1回再翻訳しました\n` : '';
+
+    if (result.dryRun) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔍 翻訳のプレビュー（ファイルは変更されていません）\n\n` +
+                  `📁 ファイル: ${url}\n` +
+                  regionText +
+                  sourceText +
+                  fieldsText +
+                  retriedText +
+                  linksText +
+                  `🧠 翻訳メモリ: ${result.memory.hits}件再利用 / ${result.memory.misses}件翻訳\n` +
+                  usageText + '\n' +
+                  violationsText +
+                  this.formatPreviews(result.changes)
+          }
+        ]
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ 翻訳が完了しました\n\n` +
+                `📁 ファイル: ${url}\n` +
+                regionText +
+                `🔄 バックアップ: ${result.backupId}\n` +
+                `⏰ 実行時刻: ${result.timestamp}\n` +
+                sourceText +
+                fieldsText +
+                retriedText +
+                linksText +
+                `🧠 翻訳メモリ: ${result.memory.hits}件再利用 / ${result.memory.misses}件翻訳\n` +
+                usageText + '\n' +
+                violationsText +
+                `翻訳後のコンテンツ:\n${result.translatedContent.substring(0, 500)}${result.translatedContent.length > 500 ? '...' : ''}`
+        }
+      ]
+    };
+  }
+
+  /**
+   * バッチ翻訳の処理
+   */
+  private async handleTranslateNotesBatch(args: any, control?: TranslationControl) {
+    const { folder, tags, query, async: runAsync, ...options } = args;
+
+    if (!folder && !query && !(Array.isArray(tags) && tags.length > 0)) {
+      throw new McpError(ErrorCode.InvalidParams, 'At least one of folder, tags or query is required');
+    }
+
+    const request: BatchTranslationRequest = { ...options, folder, tags, query };
+    if (runAsync) {
+      const job = await this.translateTool.submitJob({ type: 'batch', request });
+      return this.formatSubmittedJob(job);
+    }
+
+    const report = await this.translateTool.executeBatch(request, control);
+    return this.formatBatchReport(report);
+  }
+
+  /**
+   * バッチ翻訳のレポートを表示用のテキストに整形
+   * @param report バッチ翻訳のレポート
+   */
+  private formatBatchReport(report: BatchTranslationReport) {
+    const statusIcons = { success: '✅', failed: '❌', skipped: '⏭️' };
+    const itemsText = report.items.map(item =>
+      `${statusIcons[item.status]} ${item.path}` +
+      (item.reason ? `\n   ${item.reason}` : '') +
+      (item.structureMismatches ?? []).map(m => `\n   - ${m.element}: 原文 ${m.expected} / 訳文 ${m.actual}`).join('') +
+      (item.backupId ? `\n   🔄 バックアップ: ${item.backupId}` : '')
+    ).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📚 バッチ翻訳が完了しました (${report.targetLanguage})\n\n` +
+                `✅ 成功: ${report.succeeded}件\n` +
+                `❌ 失敗: ${report.failed}件\n` +
+                `⏭️ スキップ: ${report.skipped}件\n` +
+                `📊 トークン: 入力 ${report.usage.inputTokens} / 出力 ${report.usage.outputTokens}（${report.usage.requests}回）` +
+                ` / セッション累計: 入力 ${report.sessionUsage.inputTokens} / 出力 ${report.sessionUsage.outputTokens}\n\n` +
+                itemsText
+        }
+      ]
+    };
+  }
+
+  /**
+   * 古くなった翻訳の一覧の処理
+   */
+  private async handleListStaleTranslations(args: any) {
+    const { folder } = args ?? {};
+
+    const report = await this.translateTool.listStaleTranslations(folder);
+
+    const formatSections = (label: string, sections: string[]) =>
+      sections.length > 0 ? `   ${label}: ${sections.join(', ')}\n` : '';
+    const staleText = report.stale.map(item =>
+      `📄 ${item.path} (${item.targetLanguage})\n` +
+      `   元のノート: ${item.sourcePath}${item.sourceMissing ? ' ⚠️ 見つかりません' : ''}\n` +
+      (item.translatedAt ? `   翻訳日時: ${item.translatedAt}\n` : '') +
+      formatSections('変更されたセクション', item.sections.changed) +
+      formatSections('追加されたセクション', item.sections.added) +
+      formatSections('削除されたセクション', item.sections.removed)
+    ).join('\n');
+    const untrackedText = report.untracked.length > 0
+      ? `\n❔ 原文のハッシュが記録されていない翻訳 (${report.untracked.length}件):\n` +
+        report.untracked.map(path => `- ${path}\n`).join('')
+      : '';
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ 翻訳が完了しました\\n\\n` +
-                `📁 ファイル: ${url}\\n` +
-                `🔄 バックアップ: ${result.backupPath}\\n` +
-                `⏰ 実行時刻: ${result.timestamp}\\n\\n` +
-                `翻訳後のコンテンツ:\\n${result.translatedContent.substring(0, 500)}${result.translatedContent.length > 500 ? '...' : ''}`
+          text: `🕰️ 古くなった翻訳: ${report.stale.length}件 / 確認した翻訳: ${report.checked}件\n\n` +
+                (staleText || '✅ すべての翻訳が最新です\n') +
+                untrackedText
+        }
+      ]
+    };
+  }
+
+  /**
+   * 登録したジョブを表示用のテキストに整形
+   * @param job 登録したジョブ
+   */
+  private formatSubmittedJob(job: TranslationJob) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📥 翻訳ジョブを登録しました\n\n` +
+                `🆔 ジョブID: ${job.id}\n` +
+                `⏰ 登録時刻: ${job.createdAt}\n\n` +
+                `進捗と結果は get_translation_job で確認できます`
+        }
+      ]
+    };
+  }
+
+  /**
+   * ジョブの状態を1行の表示用のテキストに整形
+   * @param job ジョブ
+   */
+  private formatJobSummary(job: TranslationJob): string {
+    const statusIcons = { queued: '⏳', running: '🔄', completed: '✅', failed: '❌', cancelled: '🚫' };
+    const target = job.type === 'note'
+      ? job.request.url
+      : [job.request.folder, job.request.tags?.join(', '), job.request.query].filter(Boolean).join(' / ');
+    const progress = job.progress.total > 0 ? ` (${job.progress.completed}/${job.progress.total})` : '';
+    return `${statusIcons[job.status]} ${job.id} [${job.type}] ${job.status}${progress}: ${target}`;
+  }
+
+  /**
+   * 翻訳ジョブの取得の処理
+   */
+  private async handleGetTranslationJob(args: any) {
+    const { jobId } = args ?? {};
+
+    if (!jobId) {
+      throw new McpError(ErrorCode.InvalidParams, 'jobId is required');
+    }
+
+    const job = this.translateTool.getJob(jobId);
+    const header = this.formatJobSummary(job) + '\n' +
+      `⏰ 登録: ${job.createdAt}` +
+      (job.startedAt ? ` / 開始: ${job.startedAt}` : '') +
+      (job.finishedAt ? ` / 終了: ${job.finishedAt}` : '') + '\n' +
+      (job.progress.message ? `📍 処理中: ${job.progress.message}\n` : '') +
+      (job.error ? `💬 エラー: ${job.error}\n` : '');
+
+    if (!job.result) {
+      return { content: [{ type: 'text', text: header }] };
+    }
+
+    const result = job.type === 'note'
+      ? this.formatTranslationResult(job.request.url, job.result)
+      : this.formatBatchReport(job.result);
+    return {
+      content: [
+        { type: 'text', text: header },
+        ...result.content
+      ]
+    };
+  }
+
+  /**
+   * 翻訳ジョブの一覧の処理
+   */
+  private async handleListTranslationJobs(args: any) {
+    const { status } = args ?? {};
+
+    const jobs = this.translateTool.listJobs(status);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📋 翻訳ジョブ: ${jobs.length}件\n\n` +
+                jobs.map(job => this.formatJobSummary(job)).join('\n')
+        }
+      ]
+    };
+  }
+
+  /**
+   * 翻訳ジョブのキャンセルの処理
+   */
+  private async handleCancelTranslationJob(args: any) {
+    const { jobId } = args ?? {};
+
+    if (!jobId) {
+      throw new McpError(ErrorCode.InvalidParams, 'jobId is required');
+    }
+
+    const job = await this.translateTool.cancelJob(jobId);
+    const text = job.status === 'running'
+      ? `🛑 キャンセルを要求しました。次のチャンクまたはノートの翻訳を始める前に停止します`
+      : job.status === 'cancelled'
+        ? `🚫 ジョブをキャンセルしました`
+        : `ℹ️ ジョブはすでに終了しています（${job.status}）`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${text}\n\n🆔 ジョブID: ${job.id}`
         }
       ]
     };
@@ -189,10 +646,10 @@ class ObsidianMCPServer {
       content: [
         {
           type: 'text',
-          text: `✅ ノートが作成されました\\n\\n` +
-                `📁 パス: ${result.path}\\n` +
-                `📝 タイトル: ${result.title}\\n` +
-                `🏷️ タグ: ${result.tags.join(', ') || 'なし'}\\n` +
+          text: `✅ ノートが作成されました\n\n` +
+                `📁 パス: ${result.path}\n` +
+                `📝 タイトル: ${result.title}\n` +
+                `🏷️ タグ: ${result.tags.join(', ') || 'なし'}\n` +
                 `📅 作成日時: ${result.created.toISOString()}`
         }
       ]
@@ -203,22 +660,25 @@ class ObsidianMCPServer {
    * ノート読み取りの処理
    */
   private async handleReadNote(args: any) {
-    const { path } = args;
+    const { path, section, blockId, task } = args;
     
     if (!path) {
       throw new McpError(ErrorCode.InvalidParams, 'Path is required');
     }
 
-    const result = await this.notesTool.readNote(path);
+    const result = await this.notesTool.readNote(path, { section, blockId, task });
 
     return {
       content: [
         {
           type: 'text',
-          text: `📖 ノートの内容:\\n\\n` +
-                `📁 パス: ${path}\\n` +
-                `📝 メタデータ: ${JSON.stringify(result.frontmatter, null, 2)}\\n\\n` +
-                `📄 コンテンツ:\\n${result.content}`
+          text: `📖 ノートの内容:\n\n` +
+                `📁 パス: ${path}\n` +
+                (result.region ? `📍 範囲: ${result.region}\n` : '') +
+                `🔑 ハッシュ: ${result.hash}\n` +
+                `⏰ 更新日時: ${result.modified.toISOString()}\n` +
+                `📝 メタデータ: ${JSON.stringify(result.frontmatter, null, 2)}\n\n` +
+                `📄 コンテンツ:\n${result.content}`
         }
       ]
     };
@@ -228,28 +688,187 @@ class ObsidianMCPServer {
    * ノート更新の処理
    */
   private async handleUpdateNote(args: any) {
-    const { path, content, mode, createBackup } = args;
+    const { path, content, mode, createBackup, expectedHash, section, blockId, task, dryRun } = args;
+    const target = { section, blockId, task };
     
     if (!path || !content) {
       throw new McpError(ErrorCode.InvalidParams, 'Path and content are required');
     }
 
-    const result = await this.notesTool.updateNote(path, content, mode, createBackup);
+    if (dryRun) {
+      const preview = await this.notesTool.previewUpdateNote(path, content, mode, expectedHash, target);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔍 更新のプレビュー（ファイルは変更されていません）\n\n` +
+                  `🔄 更新モード: ${mode || 'replace'}\n` +
+                  this.formatTargetText(target) + '\n' +
+                  this.formatPreviews([preview])
+          }
+        ]
+      };
+    }
+
+    const result = await this.notesTool.updateNote(path, content, mode, createBackup, expectedHash, target);
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ ノートが更新されました\\n\\n` +
-                `📁 パス: ${result.path}\\n` +
-                `📝 タイトル: ${result.title}\\n` +
-                `🔄 更新モード: ${mode || 'replace'}\\n` +
+          text: `✅ ノートが更新されました\n\n` +
+                `📁 パス: ${result.path}\n` +
+                `📝 タイトル: ${result.title}\n` +
+                `🔄 更新モード: ${mode || 'replace'}\n` +
+                this.formatTargetText(target) +
                 `⏰ 更新日時: ${result.lastModified.toISOString()}`
         }
       ]
     };
   }
 
+  /**
+   * プロパティ更新の処理
+   */
+  private async handleUpdateNoteProperties(args: any) {
+    const { operations, paths, folder, tags, query, maxNotes, dryRun } = args;
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'operations is required');
+    }
+
+    const report = await this.propertiesTool.updateProperties({
+      operations,
+      paths,
+      folder,
+      tags,
+      query,
+      maxNotes,
+      dryRun
+    });
+
+    const statusIcons = { updated: '✅', unchanged: '➖', failed: '❌' };
+    const itemsText = report.items.map(item =>
+      `${statusIcons[item.status]} ${item.path}` +
+      (item.changed.length > 0 ? `: ${item.changed.join(', ')}` : '') +
+      (item.reason ? ` - ${item.reason}` : '')
+    ).join('\n');
+    const previews = report.items.flatMap(item => (item.preview ? [item.preview] : []));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: (report.dryRun
+                  ? `🔍 プロパティ更新のプレビュー（ファイルは変更されていません）\n\n`
+                  : `🏷️ プロパティを更新しました\n\n`) +
+                `📊 更新: ${report.updated}件 / 変更なし: ${report.unchanged}件 / 失敗: ${report.failed}件\n\n` +
+                (itemsText ? `${itemsText}\n` : '📭 対象のノートがありません\n') +
+                (previews.length > 0 ? `\n${this.formatPreviews(previews)}` : '')
+        }
+      ]
+    };
+  }
+
+  /**
+   * 更新する範囲の指定を表示用のテキストに整形
+   * @param target 範囲の指定
+   * @returns 範囲の行（指定がない場合は空文字）
+   */
+  private formatTargetText(target: NoteTarget): string {
+    if (target.section !== undefined) {
+      return `📍 セクション: ${target.section}\n`;
+    }
+    if (target.blockId !== undefined) {
+      return `📍 ブロック: ^${target.blockId.replace(/^\^/, '')}\n`;
+    }
+    if (target.task !== undefined) {
+      return `📍 タスク: ${target.task}\n`;
+    }
+    return '';
+  }
+
+  /**
+   * ノート移動の処理
+   */
+  private async handleMoveNote(args: any) {
+    const { path, newPath } = args;
+
+    if (!path || !newPath) {
+      throw new McpError(ErrorCode.InvalidParams, 'Path and newPath are required');
+    }
+
+    return this.formatMoveResult('ノートを移動しました', await this.notesTool.moveNote(path, newPath));
+  }
+
+  /**
+   * ノート名変更の処理
+   */
+  private async handleRenameNote(args: any) {
+    const { path, newName } = args;
+
+    if (!path || !newName) {
+      throw new McpError(ErrorCode.InvalidParams, 'Path and newName are required');
+    }
+
+    return this.formatMoveResult('ノートの名前を変更しました', await this.notesTool.renameNote(path, newName));
+  }
+
+  /**
+   * ノートの移動・名前変更の結果を表示用のテキストに整形
+   * @param title 見出し
+   * @param result 移動の結果
+   */
+  private formatMoveResult(title: string, result: NoteMoveResult) {
+    const updatedText = result.updatedNotes.length > 0
+      ? `\n📝 リンクを書き換えたノート (${result.updatedNotes.length}件):\n` +
+        result.updatedNotes.map(path => `- ${path}`).join('\n') + '\n'
+      : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ ${title}\n\n` +
+                `📁 移動前: ${result.path}\n` +
+                `📁 移動後: ${result.newPath}\n` +
+                `🔗 書き換えたリンク: ${result.rewrittenLinks}件\n` +
+                updatedText
+        }
+      ]
+    };
+  }
+
+  /**
+   * ノート削除の処理
+   */
+  private async handleDeleteNote(args: any) {
+    const { path } = args;
+
+    if (!path) {
+      throw new McpError(ErrorCode.InvalidParams, 'Path is required');
+    }
+
+    const result = await this.notesTool.deleteNote(path);
+    const backlinksText = result.backlinks.length > 0
+      ? `\n⚠️ 削除したノートへのリンクが残っているノート (${result.backlinks.length}件):\n` +
+        result.backlinks.map(path => `- ${path}`).join('\n') + '\n'
+      : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ ノートをゴミ箱に移動しました\n\n` +
+                `📁 パス: ${result.path}\n` +
+                `📦 移動先: ${result.trashPath}\n` +
+                backlinksText
+        }
+      ]
+    };
+  }
+
   /**
    * ノート検索の処理
    */
@@ -268,17 +887,17 @@ class ObsidianMCPServer {
     );
 
     const resultsText = results.map(result => 
-      `📁 ${result.path}\\n` +
-      `📝 ${result.title}\\n` +
-      `🎯 一致数: ${result.matches}\\n` +
-      `📄 抜粋: ${result.excerpt}\\n`
-    ).join('\\n---\\n\\n');
+      `📁 ${result.path}\n` +
+      `📝 ${result.title}\n` +
+      `🎯 一致数: ${result.matches}\n` +
+      `📄 抜粋: ${result.excerpt}\n`
+    ).join('\n---\n\n');
 
     return {
       content: [
         {
           type: 'text',
-          text: `🔍 検索結果 (${results.length}件):\\n\\n${resultsText}`
+          text: `🔍 検索結果 (${results.length}件):\n\n${resultsText}`
         }
       ]
     };
@@ -301,24 +920,160 @@ class ObsidianMCPServer {
     );
 
     const resultsText = results.map(result => 
-      `📁 ${result.path}\\n` +
-      `📝 ${result.title}\\n` +
-      `🎯 一致数: ${result.matches}\\n` +
-      `📄 抜粋: ${result.excerpt}\\n`
-    ).join('\\n---\\n\\n');
+      `📁 ${result.path}\n` +
+      `📝 ${result.title}\n` +
+      `🎯 一致数: ${result.matches}\n` +
+      `📄 抜粋: ${result.excerpt}\n`
+    ).join('\n---\n\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🏷️ タグ検索結果 (${results.length}件):\n` +
+                `検索タグ: ${tags.join(', ')}\n` +
+                `マッチモード: ${matchMode}\n\n${resultsText}`
+        }
+      ]
+    };
+  }
+
+  /**
+   * ノートの版の履歴の処理
+   */
+  private async handleGetNoteHistory(args: any) {
+    const { path, limit } = args ?? {};
+
+    if (!path) {
+      throw new McpError(ErrorCode.InvalidParams, 'Path is required');
+    }
+
+    const { versions, total } = await this.backupsTool.getNoteHistory(path, limit);
+
+    const operationLabels = {
+      external: '外部での編集',
+      create: '作成',
+      update: '更新',
+      translate: '翻訳',
+      restore: '復元',
+      move: '移動',
+      delete: '削除'
+    };
+    const versionsText = versions.map(version =>
+      `${version.current ? '👉' : '•'} ${version.timestamp} ${operationLabels[version.operation]}${version.current ? '（現在の内容）' : ''}\n` +
+      `   🔄 ${version.id} / ${this.formatBackupSize(version)}`
+    ).join('\n');
 
     return {
       content: [
         {
           type: 'text',
-          text: `🏷️ タグ検索結果 (${results.length}件):\\n` +
-                `検索タグ: ${tags.join(', ')}\\n` +
-                `マッチモード: ${matchMode}\\n\\n${resultsText}`
+          text: `🕘 ノートの履歴: ${path}（${total}版）` +
+                (total > versions.length ? `（新しい${versions.length}版を表示）` : '') + '\n\n' +
+                (versionsText || '記録された版はありません')
         }
       ]
     };
   }
 
+  /**
+   * バックアップのサイズを表示用に整形
+   */
+  private formatBackupSize(backup: BackupInfo): string {
+    return `${backup.size} bytes（圧縮後 ${backup.storedSize} bytes）`;
+  }
+
+  /**
+   * バックアップ一覧の処理
+   */
+  private async handleListNoteBackups(args: any) {
+    const { path, limit } = args ?? {};
+
+    const { backups, total } = await this.backupsTool.listBackups(path, limit);
+
+    const backupsText = backups.map(backup =>
+      `🔄 ${backup.id}\n` +
+      `   📁 ${backup.originalPath} / ⏰ ${backup.timestamp} / ${this.formatBackupSize(backup)}`
+    ).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗂️ バックアップ: ${total}件${path ? `（${path}）` : ''}` +
+                (total > backups.length ? `（新しい${backups.length}件を表示）` : '') + '\n\n' +
+                (backupsText || 'バックアップはありません')
+        }
+      ]
+    };
+  }
+
+  /**
+   * バックアップ差分の処理
+   */
+  private async handleDiffNoteBackup(args: any) {
+    const { backupId } = args ?? {};
+
+    if (!backupId) {
+      throw new McpError(ErrorCode.InvalidParams, 'backupId is required');
+    }
+
+    const { backup, preview } = await this.backupsTool.diffBackup(backupId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔍 バックアップを復元した場合の変更（ファイルは変更されていません）\n\n` +
+                `🔄 バックアップ: ${backup.id}\n` +
+                `⏰ 作成時刻: ${backup.timestamp}\n\n` +
+                this.formatPreviews([preview])
+        }
+      ]
+    };
+  }
+
+  /**
+   * バックアップ復元の処理
+   */
+  private async handleRestoreNoteBackup(args: any) {
+    const { backupId } = args ?? {};
+
+    if (!backupId) {
+      throw new McpError(ErrorCode.InvalidParams, 'backupId is required');
+    }
+
+    const result = await this.backupsTool.restoreBackup(backupId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `♻️ バックアップから復元しました\n\n` +
+                `📁 ファイル: ${result.restoredPath}\n` +
+                `🔄 復元したバックアップ: ${result.restoredFrom.id}（${result.restoredFrom.timestamp}）\n` +
+                (result.backupOfCurrent
+                  ? `💾 復元前の状態のバックアップ: ${result.backupOfCurrent.id}\n\n` +
+                    `復元を取り消す場合は、このバックアップを restore_note_backup で復元してください`
+                  : `ℹ️ 元のノートが存在しなかったため、復元前の状態のバックアップは作成していません`)
+        }
+      ]
+    };
+  }
+
+  /**
+   * 変更のプレビューを表示用に整形
+   */
+  private formatPreviews(previews: FileChangePreview[]): string {
+    return previews.map(preview =>
+      `📁 ${preview.path}${preview.exists ? '' : '（新規作成）'}\n\n` +
+      `📝 Frontmatterの差分:\n` +
+      '```diff\n' + (preview.frontmatterDiff || '（変更なし）\n') + '```\n\n' +
+      `📄 本文の差分:\n` +
+      '```diff\n' + (preview.bodyDiff || '（変更なし）\n') + '```\n'
+    ).join('\n---\n\n');
+  }
+
   /**
    * エラーコードのマッピング
    */
@@ -332,6 +1087,27 @@ class ObsidianMCPServer {
     if (errorMessage.includes(ObsidianErrorCode.VAULT_MISMATCH)) {
       return ErrorCode.InvalidParams;
     }
+    if (errorMessage.includes(ObsidianErrorCode.UNSUPPORTED_LANGUAGE)) {
+      return ErrorCode.InvalidParams;
+    }
+    if (errorMessage.includes(ObsidianErrorCode.INVALID_REGION)) {
+      return ErrorCode.InvalidParams;
+    }
+    if (errorMessage.includes(ObsidianErrorCode.JOB_NOT_FOUND)) {
+      return ErrorCode.InvalidParams;
+    }
+    if (errorMessage.includes(ObsidianErrorCode.BACKUP_NOT_FOUND)) {
+      return ErrorCode.InvalidParams;
+    }
+    if (errorMessage.includes(ObsidianErrorCode.INVALID_PROPERTY)) {
+      return ErrorCode.InvalidParams;
+    }
+    if (errorMessage.includes(ObsidianErrorCode.FILE_EXISTS)) {
+      return ErrorCode.InvalidParams;
+    }
+    if (errorMessage.includes(ObsidianErrorCode.CONFLICT)) {
+      return ErrorCode.InvalidRequest;
+    }
     if (errorMessage.includes(ObsidianErrorCode.PERMISSION_DENIED)) {
       return ErrorCode.InternalError;
     }
@@ -343,6 +1119,12 @@ class ObsidianMCPServer {
    * サーバーを起動
    */
   async start(): Promise<void> {
+    // サーバーの停止で中断された翻訳ジョブを再開する
+    const { resumed, failed } = await this.translateTool.resumeJobs();
+    if (resumed.length > 0 || failed.length > 0) {
+      console.error(`🔁 Translation jobs: ${resumed.length} resumed, ${failed.length} marked as failed`);
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     
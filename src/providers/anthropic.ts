@@ -0,0 +1,46 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { TranslationProvider, ProviderRequest, ProviderResponse } from '../types/index.js';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-haiku-20240307';
+
+export class AnthropicProvider implements TranslationProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private anthropic: Anthropic;
+
+  constructor(apiKey: string, model: string = DEFAULT_ANTHROPIC_MODEL) {
+    // 再試行は ResilientProvider で行うため、SDK自身の再試行は無効にする
+    this.anthropic = new Anthropic({
+      apiKey: apiKey,
+      maxRetries: 0,
+    });
+    this.model = model;
+  }
+
+  /**
+   * Anthropic Messages APIで翻訳する
+   * @param request プロバイダーへのリクエスト
+   * @returns 翻訳されたテキスト
+   */
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.anthropic.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt
+        }
+      ]
+    });
+
+    return {
+      text: response.content[0]?.type === 'text' ? response.content[0].text : request.text,
+      truncated: response.stop_reason === 'max_tokens',
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens
+      }
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { TranslationProvider, TranslationProviderConfig, ErrorCode } from '../types/index.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import { PseudoProvider } from './pseudo.js';
+import { ResilientProvider } from './resilient.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './anthropic.js';
+export { OpenAICompatibleProvider } from './openai-compatible.js';
+export { PseudoProvider } from './pseudo.js';
+export { ResilientProvider } from './resilient.js';
+
+/**
+ * 設定に応じた翻訳プロバイダーを生成する
+ * レート制限と一時的なエラーの再試行を行うプロバイダーでラップして返す
+ * @param config プロバイダー設定
+ * @param limiter プロセス全体で共有するレート制限（省略時はこのプロバイダー専用に作成）
+ * @returns 翻訳プロバイダー
+ */
+export function createTranslationProvider(
+  config: TranslationProviderConfig,
+  limiter: RateLimiter = new RateLimiter()
+): TranslationProvider {
+  return new ResilientProvider(createBaseProvider(config), limiter, config.maxRetries);
+}
+
+/**
+ * 設定に応じたAPI呼び出しを行うプロバイダーを生成する
+ * @param config プロバイダー設定
+ * @returns 翻訳プロバイダー
+ */
+function createBaseProvider(config: TranslationProviderConfig): TranslationProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      if (!config.apiKey) {
+        throw new Error(`${ErrorCode.INVALID_CONFIG}: Anthropic provider requires an API key`);
+      }
+      return new AnthropicProvider(config.apiKey, config.model);
+
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error(`${ErrorCode.INVALID_CONFIG}: OpenAI-compatible provider requires a base URL and a model`);
+      }
+      return new OpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey);
+
+    case 'pseudo':
+      return new PseudoProvider(config.model);
+
+    default:
+      throw new Error(`${ErrorCode.INVALID_CONFIG}: Unknown translation provider '${config.provider}'`);
+  }
+}
@@ -0,0 +1,69 @@
+import { TranslationProvider, ProviderRequest, ProviderResponse, ErrorCode } from '../types/index.js';
+
+export class OpenAICompatibleProvider implements TranslationProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * OpenAI互換のChat Completions APIで翻訳する
+   * @param request プロバイダーへのリクエスト
+   * @returns 翻訳されたテキスト
+   */
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens,
+        messages: [
+          {
+            role: 'user',
+            content: request.prompt
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      // 再試行の判定に使うため、ステータスと Retry-After をエラーに含める
+      const error = new Error(
+        `${ErrorCode.TRANSLATION_FAILED}: ${this.baseUrl} responded with ${response.status}: ${await response.text()}`
+      );
+      const retryAfter = response.headers.get('retry-after');
+      throw Object.assign(error, {
+        status: response.status,
+        headers: retryAfter ? { 'retry-after': retryAfter } : {}
+      });
+    }
+
+    const data: any = await response.json();
+    const choice = data.choices?.[0];
+
+    if (typeof choice?.message?.content !== 'string') {
+      throw new Error(`${ErrorCode.TRANSLATION_FAILED}: ${this.baseUrl} returned no message content`);
+    }
+
+    return {
+      text: choice.message.content,
+      truncated: choice.finish_reason === 'length',
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0
+      }
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { TranslationProvider, ProviderRequest, ProviderResponse } from '../types/index.js';
+
+const ACCENTED: Record<string, string> = {
+  a: 'á', b: 'ƀ', c: 'ç', d: 'ď', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'ü', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Á', B: 'Ɓ', C: 'Ç', D: 'Ď', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Í', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Ü', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+// 変換してはいけない部分（プレースホルダーとタスクのチェックボックス）
+const PRESERVED_PATTERN = /(⟦P\d+⟧|\[[ xX]\])/;
+
+/**
+ * ネットワークを使わない決定的なプロバイダー
+ * モデル名が 'echo' の場合は入力をそのまま返し、それ以外は擬似ロケール化する
+ */
+export class PseudoProvider implements TranslationProvider {
+  readonly name = 'pseudo' as const;
+  readonly model: string;
+
+  constructor(model: string = 'pseudo-locale') {
+    this.model = model;
+  }
+
+  /**
+   * 入力テキストを決定的に変換する
+   * @param request プロバイダーへのリクエスト
+   * @returns 変換されたテキスト
+   */
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    if (this.model === 'echo') {
+      return { text: request.text, truncated: false, usage: { inputTokens: 0, outputTokens: 0 } };
+    }
+
+    const text = request.text
+      .split(PRESERVED_PATTERN)
+      .map((part, index) =>
+        index % 2 === 1 ? part : part.replace(/[A-Za-z]/g, (ch) => ACCENTED[ch])
+      )
+      .join('');
+
+    return { text, truncated: false, usage: { inputTokens: 0, outputTokens: 0 } };
+  }
+}
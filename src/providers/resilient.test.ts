@@ -0,0 +1,57 @@
+import { ResilientProvider } from './resilient.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import { ProviderRequest, ProviderResponse, TranslationProvider } from '../types/index.js';
+
+const REQUEST: ProviderRequest = { prompt: 'Translate', text: 'Hello', targetLanguage: 'de', maxTokens: 100 };
+
+/**
+ * 指定したエラーを順に投げた後に成功するプロバイダーを作成する
+ */
+function failingProvider(errors: unknown[]): TranslationProvider & { calls: number } {
+  const provider = {
+    name: 'pseudo' as const,
+    model: 'failing',
+    calls: 0,
+    complete: async (request: ProviderRequest): Promise<ProviderResponse> => {
+      const error = errors[provider.calls++];
+      if (error) {
+        throw error;
+      }
+      return { text: request.text, truncated: false, usage: { inputTokens: 1, outputTokens: 1 } };
+    }
+  };
+  return provider;
+}
+
+// Retry-After で待ち時間を短くした一時的なエラー
+const transient = (message: string, status?: number) =>
+  Object.assign(new Error(message), { status, headers: { 'retry-after': '0.001' } });
+const rateLimited = () => transient('Too many requests', 429);
+
+describe('ResilientProvider', () => {
+  it('retries rate limit and server errors until the request succeeds', async () => {
+    const inner = failingProvider([rateLimited(), transient('Service unavailable', 503), transient('Overloaded')]);
+    const provider = new ResilientProvider(inner, new RateLimiter());
+
+    await expect(provider.complete(REQUEST)).resolves.toMatchObject({ text: 'Hello' });
+    expect(inner.calls).toBe(4);
+  });
+
+  it('does not retry other errors', async () => {
+    const inner = failingProvider([Object.assign(new Error('Bad request'), { status: 400 })]);
+    const provider = new ResilientProvider(inner, new RateLimiter());
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow('Bad request');
+    expect(inner.calls).toBe(1);
+  });
+
+  it('reports the provider as unavailable after the last retry', async () => {
+    const inner = failingProvider([rateLimited(), rateLimited(), rateLimited()]);
+    const provider = new ResilientProvider(inner, new RateLimiter(), 1);
+
+    await expect(provider.complete(REQUEST)).rejects.toThrow(
+      'PROVIDER_UNAVAILABLE: pseudo is unavailable after 2 attempts'
+    );
+    expect(inner.calls).toBe(2);
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  TranslationProvider,
+  TranslationProviderType,
+  ProviderRequest,
+  ProviderResponse,
+  ErrorCode
+} from '../types/index.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+
+// 再試行の初回の待ち時間と上限（ミリ秒）
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * 他のプロバイダーをラップし、レート制限と一時的なエラーの再試行を行う
+ * 429・5xx・過負荷（overloaded）の応答は指数バックオフで再試行する
+ */
+export class ResilientProvider implements TranslationProvider {
+  readonly name: TranslationProviderType;
+  readonly model: string;
+  private inner: TranslationProvider;
+  private limiter: RateLimiter;
+  private maxRetries: number;
+
+  constructor(inner: TranslationProvider, limiter: RateLimiter, maxRetries: number = 4) {
+    this.inner = inner;
+    this.limiter = limiter;
+    this.maxRetries = maxRetries;
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  /**
+   * レート制限の範囲内で翻訳し、一時的なエラーは再試行する
+   * @param request プロバイダーへのリクエスト
+   * @returns 翻訳されたテキスト
+   * @throws 再試行しても成功しない場合は PROVIDER_UNAVAILABLE
+   */
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limiter.run(() => this.inner.complete(request));
+      } catch (error) {
+        if (!ResilientProvider.isRetryable(error)) {
+          throw error;
+        }
+        if (attempt >= this.maxRetries) {
+          throw new Error(
+            `${ErrorCode.PROVIDER_UNAVAILABLE}: ${this.name} is unavailable after ${attempt + 1} attempts: ${error instanceof Error ? error.message : error}`
+          );
+        }
+        await new Promise(resolve => setTimeout(resolve, ResilientProvider.retryDelay(error, attempt)));
+      }
+    }
+  }
+
+  /**
+   * 再試行すべきエラーか判定する
+   * @param error 発生したエラー
+   * @returns 429・5xx・過負荷の場合true
+   */
+  private static isRetryable(error: unknown): boolean {
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number' && (status === 429 || status >= 500)) {
+      return true;
+    }
+    return error instanceof Error && /overloaded/i.test(error.message);
+  }
+
+  /**
+   * 再試行までの待ち時間を求める
+   * Retry-After ヘッダーがあればそれに従い、なければ指数バックオフ（ジッター付き）とする
+   * @param error 発生したエラー
+   * @param attempt 試行回数（0始まり）
+   * @returns 待ち時間（ミリ秒）
+   */
+  private static retryDelay(error: unknown, attempt: number): number {
+    const headers = (error as { headers?: Record<string, string> })?.headers;
+    const retryAfter = Number(headers?.['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+    }
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
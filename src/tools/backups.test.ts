@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BackupsTool } from './backups.js';
+import { FileSystemHelper } from '../utils/file-system.js';
+
+describe('BackupsTool', () => {
+  let vault: string;
+  let fileSystem: FileSystemHelper;
+  let tool: BackupsTool;
+
+  beforeEach(async () => {
+    vault = await fs.mkdtemp(join(tmpdir(), 'obsidian-mcp-'));
+    fileSystem = new FileSystemHelper(vault);
+    tool = new BackupsTool(vault);
+    await fileSystem.writeFile('Note.md', 'Original\n');
+    await fileSystem.writeFile('Other.md', 'Other\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(vault, { recursive: true, force: true });
+  });
+
+  it('lists the backups of a note newest first', async () => {
+    const first = await fileSystem.createBackup('Note.md');
+    await fileSystem.createBackup('Other.md');
+    await fileSystem.writeFile('Note.md', 'Changed\n');
+    const second = await fileSystem.createBackup('Note.md');
+
+    expect(await tool.listBackups('Note.md')).toEqual({ backups: [second, first], total: 2 });
+    expect((await tool.listBackups(undefined, 1)).total).toBe(3);
+  });
+
+  it('marks the version with the current content in the history', async () => {
+    await fileSystem.createBackup('Note.md');
+    await fileSystem.writeFile('Note.md', 'Changed\n');
+    await fileSystem.recordVersion('Note.md', 'update');
+
+    const { versions } = await tool.getNoteHistory('Note.md');
+
+    expect(versions.map(version => [version.operation, version.current])).toEqual([
+      ['update', true],
+      ['external', false]
+    ]);
+  });
+
+  it('shows the changes a restore would make and restores the note', async () => {
+    const backup = await fileSystem.createBackup('Note.md');
+    await fileSystem.writeFile('Note.md', 'Changed\n');
+
+    const { preview } = await tool.diffBackup(backup.id);
+    expect(preview.bodyDiff).toContain('-Changed');
+    expect(preview.bodyDiff).toContain('+Original');
+
+    const result = await tool.restoreBackup(backup.id);
+    expect(await fileSystem.readFile('Note.md')).toBe('Original\n');
+
+    // 復元前の状態もバックアップされ、復元を取り消せる
+    await tool.restoreBackup(result.backupOfCurrent!.id);
+    expect(await fileSystem.readFile('Note.md')).toBe('Changed\n');
+  });
+
+  it('rejects unknown backup ids', async () => {
+    await expect(tool.diffBackup('missing')).rejects.toThrow('BACKUP_NOT_FOUND');
+  });
+});
@@ -0,0 +1,178 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { FileSystemHelper } from '../utils/file-system.js';
+import { VersionStore, DEFAULT_BACKUP_RETENTION } from '../utils/version-store.js';
+import { ObsidianUrlParser } from '../utils/obsidian-url.js';
+import { createNotePreview } from '../utils/diff.js';
+import { BackupInfo, BackupRestoreResult, BackupRetention, NoteVersion, FileChangePreview } from '../types/index.js';
+
+export class BackupsTool {
+  private fileSystem: FileSystemHelper;
+
+  constructor(vaultPath: string, backupRetention: BackupRetention = DEFAULT_BACKUP_RETENTION) {
+    this.fileSystem = new FileSystemHelper(vaultPath, backupRetention);
+  }
+
+  /**
+   * バックアップ一覧ツールの定義を取得
+   */
+  static getListBackupsToolDefinition(): Tool {
+    return {
+      name: 'list_note_backups',
+      description: 'List backed-up versions of notes (taken before and after translate, update and restore), newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Only list backups of this note (relative to vault root, default: all notes)'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of backups to return',
+            default: 20
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * バックアップ差分ツールの定義を取得
+   */
+  static getDiffBackupToolDefinition(): Tool {
+    return {
+      name: 'diff_note_backup',
+      description: 'Show the changes restoring a backup would make to the current note, as a unified diff',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          backupId: {
+            type: 'string',
+            description: 'Backup ID as returned by list_note_backups, get_note_history or a translate result'
+          }
+        },
+        required: ['backupId']
+      }
+    };
+  }
+
+  /**
+   * バックアップ復元ツールの定義を取得
+   */
+  static getRestoreBackupToolDefinition(): Tool {
+    return {
+      name: 'restore_note_backup',
+      description: 'Restore a note from a backup. The current state of the note is backed up first, so the restore can itself be undone',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          backupId: {
+            type: 'string',
+            description: 'Backup ID as returned by list_note_backups, get_note_history or a translate result'
+          }
+        },
+        required: ['backupId']
+      }
+    };
+  }
+
+  /**
+   * ノートの版の履歴ツールの定義を取得
+   */
+  static getNoteHistoryToolDefinition(): Tool {
+    return {
+      name: 'get_note_history',
+      description: 'Get the timeline of stored versions of a note, with the operation that produced each version',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Path of the note (relative to vault root)'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of versions to return',
+            default: 20
+          }
+        },
+        required: ['path']
+      }
+    };
+  }
+
+  /**
+   * バックアップを新しい順に一覧する
+   * @param path 元のノートのパス（省略時はすべてのノート）
+   * @param limit 最大件数
+   * @returns バックアップ情報の配列と総数
+   */
+  async listBackups(path?: string, limit: number = 20): Promise<{ backups: BackupInfo[]; total: number }> {
+    if (path) {
+      ObsidianUrlParser.validatePath(path);
+    }
+
+    const backups = await this.fileSystem.listBackups(path);
+    return { backups: backups.slice(0, Math.max(1, limit)), total: backups.length };
+  }
+
+  /**
+   * ノートの版の履歴を新しい順に取得する
+   * @param path ノートのパス
+   * @param limit 最大件数
+   * @returns 版の配列（現在の内容と同じ版には current を付ける）と総数
+   */
+  async getNoteHistory(path: string, limit: number = 20): Promise<{ versions: NoteVersion[]; total: number }> {
+    ObsidianUrlParser.validatePath(path);
+
+    const currentHash = (await this.fileSystem.exists(path))
+      ? VersionStore.hash(await this.fileSystem.readFile(path))
+      : null;
+    const backups = await this.fileSystem.listBackups(path);
+
+    return {
+      versions: backups
+        .slice(0, Math.max(1, limit))
+        .map(backup => ({ ...backup, current: backup.hash === currentHash })),
+      total: backups.length
+    };
+  }
+
+  /**
+   * バックアップを復元した場合の変更を現在のノートと比較する
+   * @param backupId バックアップのID
+   * @returns バックアップ情報と変更のプレビュー
+   */
+  async diffBackup(backupId: string): Promise<{ backup: BackupInfo; preview: FileChangePreview }> {
+    const backup = await this.fileSystem.getBackup(backupId);
+    const backupContent = await this.fileSystem.readBackup(backup.id);
+    const currentContent = (await this.fileSystem.exists(backup.originalPath))
+      ? await this.fileSystem.readFile(backup.originalPath)
+      : null;
+
+    return { backup, preview: createNotePreview(backup.originalPath, currentContent, backupContent) };
+  }
+
+  /**
+   * バックアップからノートを復元する
+   * 現在のノートは復元前にバックアップし、復元を取り消せるようにする
+   * @param backupId バックアップのID
+   * @returns 復元したノートと、復元前の状態のバックアップ
+   */
+  async restoreBackup(backupId: string): Promise<BackupRestoreResult> {
+    const backup = await this.fileSystem.getBackup(backupId);
+    ObsidianUrlParser.validatePath(backup.originalPath);
+    const backupContent = await this.fileSystem.readBackup(backup.id);
+
+    // 元のノートが削除されている場合はバックアップせずに作り直す
+    const [backupOfCurrent] = await this.fileSystem.beginTransaction()
+      .write(backup.originalPath, backupContent)
+      .commit('restore');
+
+    return {
+      restoredPath: backup.originalPath,
+      restoredFrom: backup,
+      ...(backupOfCurrent ? { backupOfCurrent } : {})
+    };
+  }
+}
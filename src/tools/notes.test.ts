@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NotesTool } from './notes.js';
+
+describe('NotesTool', () => {
+  let vault: string;
+  let tool: NotesTool;
+
+  beforeEach(async () => {
+    vault = await fs.mkdtemp(join(tmpdir(), 'obsidian-mcp-'));
+    tool = new NotesTool(vault);
+    await fs.writeFile(join(vault, 'Note.md'), 'Original\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(vault, { recursive: true, force: true });
+  });
+
+  it('updates a note that has not changed since it was read', async () => {
+    const { hash } = await tool.readNote('Note.md');
+
+    await tool.updateNote('Note.md', 'Mine\n', 'replace', true, hash);
+
+    expect((await tool.readNote('Note.md')).content).toBe('Mine\n');
+  });
+
+  it('fails with CONFLICT and keeps the note when it changed after it was read', async () => {
+    const { hash } = await tool.readNote('Note.md');
+    await fs.writeFile(join(vault, 'Note.md'), 'External\n');
+
+    await expect(tool.updateNote('Note.md', 'Mine\n', 'replace', true, hash)).rejects.toThrow(/^CONFLICT:/);
+    expect(await fs.readFile(join(vault, 'Note.md'), 'utf-8')).toBe('External\n');
+  });
+
+  it('checks the hash in a preview as well', async () => {
+    const { hash } = await tool.readNote('Note.md');
+    await fs.writeFile(join(vault, 'Note.md'), 'External\n');
+
+    await expect(tool.previewUpdateNote('Note.md', 'Mine\n', 'replace', hash)).rejects.toThrow(/^CONFLICT:/);
+    expect((await tool.previewUpdateNote('Note.md', 'Mine\n')).bodyDiff).toContain('-External\n+Mine');
+  });
+
+  it('moves a note and rewrites the links to it', async () => {
+    await fs.mkdir(join(vault, 'docs'));
+    await fs.writeFile(join(vault, 'docs', 'Other.md'), 'See [[Note#Intro|intro]] and [note](../Note.md).\n');
+
+    const result = await tool.moveNote('Note.md', 'archive/Note');
+
+    expect(result).toEqual({ path: 'Note.md', newPath: 'archive/Note.md', updatedNotes: ['docs/Other.md'], rewrittenLinks: 1 });
+    expect(await fs.readFile(join(vault, 'docs', 'Other.md'), 'utf-8')).toBe(
+      'See [[Note#Intro|intro]] and [note](../archive/Note.md).\n'
+    );
+    expect(await fs.readFile(join(vault, 'archive', 'Note.md'), 'utf-8')).toBe('Original\n');
+    expect(await fs.readdir(vault)).not.toContain('Note.md');
+  });
+
+  it('renames a note in its folder and rewrites path links', async () => {
+    await fs.mkdir(join(vault, 'docs'));
+    await fs.writeFile(join(vault, 'docs', 'Guide.md'), '# Guide\n');
+    await fs.writeFile(join(vault, 'Index.md'), '[[docs/Guide|guide]] and [[Guide]]\n');
+
+    const result = await tool.renameNote('docs/Guide.md', 'Manual');
+
+    expect(result.newPath).toBe('docs/Manual.md');
+    expect(await fs.readFile(join(vault, 'Index.md'), 'utf-8')).toBe('[[docs/Manual|guide]] and [[Manual]]\n');
+  });
+
+  it('refuses to overwrite an existing note or to move other files', async () => {
+    await fs.writeFile(join(vault, 'Taken.md'), 'Taken\n');
+    await fs.writeFile(join(vault, 'image.png'), '');
+
+    await expect(tool.moveNote('Note.md', 'Taken.md')).rejects.toThrow(/^FILE_EXISTS:/);
+    await expect(tool.renameNote('Note.md', 'folder/Name')).rejects.toThrow(/^INVALID_PATH:/);
+    await expect(tool.moveNote('image.png', 'moved.png')).rejects.toThrow(/^INVALID_PATH:/);
+  });
+
+  it('moves a deleted note to the trash and reports the remaining backlinks', async () => {
+    await fs.writeFile(join(vault, 'Other.md'), 'See [[Note]].\n');
+    await fs.writeFile(join(vault, 'image.png'), '');
+
+    const result = await tool.deleteNote('Note.md');
+
+    expect(result).toEqual({ path: 'Note.md', trashPath: expect.stringMatching(/\/Note\.md$/), backlinks: ['Other.md'] });
+    expect(await fs.readFile(join(vault, result.trashPath), 'utf-8')).toBe('Original\n');
+    await expect(tool.deleteNote('image.png')).rejects.toThrow(/^INVALID_PATH:/);
+    expect(await fs.readdir(vault)).toContain('image.png');
+  });
+
+  describe('with a target', () => {
+    const GUIDE = '# Guide\n\n## Setup\n\nInstall it. ^install\n\n### Linux\n\nUse apt.\n\n## Tasks\n\n  - [ ] Buy milk\n- [ ] Call Bob\n';
+
+    beforeEach(async () => {
+      await fs.writeFile(join(vault, 'Guide.md'), GUIDE);
+    });
+
+    const update = async (content: string, mode: 'replace' | 'append' | 'prepend', target: object) => {
+      await tool.updateNote('Guide.md', content, mode, false, undefined, target);
+      return (await tool.readNote('Guide.md')).content;
+    };
+
+    it('replaces everything under a heading but keeps the heading', async () => {
+      expect(await update('Run the installer.', 'replace', { section: 'Setup' })).toBe(
+        '# Guide\n\n## Setup\nRun the installer.\n\n## Tasks\n\n  - [ ] Buy milk\n- [ ] Call Bob\n'
+      );
+    });
+
+    it('inserts at the end or the start of a section', async () => {
+      expect(await update('Use dnf.', 'append', { section: 'Setup > Linux' })).toContain('Use apt.\nUse dnf.\n\n## Tasks');
+      expect(await update('First.', 'prepend', { section: '## Tasks' })).toContain('## Tasks\nFirst.\n\n  - [ ] Buy milk');
+    });
+
+    it('keeps the block id when replacing a block', async () => {
+      expect(await update('Install it with the script.', 'replace', { blockId: 'install' })).toContain(
+        '\nInstall it with the script. ^install\n'
+      );
+      expect(await update('New text ^install', 'replace', { blockId: '^install' })).toContain('\nNew text ^install\n');
+    });
+
+    it('completes a task, or keeps the checkbox when given only the text', async () => {
+      expect(await update('- [x] Call Bob', 'replace', { task: 'Call Bob' })).toContain('\n- [x] Call Bob\n');
+      expect(await update('Buy oat milk', 'replace', { task: 'milk' })).toContain('\n  - [ ] Buy oat milk\n');
+    });
+
+    it('reads only the target', async () => {
+      const result = await tool.readNote('Guide.md', { section: 'Linux' });
+
+      expect(result.content).toBe('### Linux\n\nUse apt.');
+      expect(result.region).toBe("Section 'Linux'");
+    });
+  });
+});
@@ -1,14 +1,33 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { FileSystemHelper } from '../utils/file-system.js';
-import { NoteMetadata, ErrorCode } from '../types/index.js';
+import { VersionStore, DEFAULT_BACKUP_RETENTION } from '../utils/version-store.js';
+import { createNotePreview } from '../utils/diff.js';
+import { LinkRewriter } from '../utils/link-rewriter.js';
+import { ObsidianUrlParser } from '../utils/obsidian-url.js';
+import { MarkdownOutline, TASK_PATTERN } from '../utils/outline.js';
+import { FrontmatterEditor } from '../utils/frontmatter-editor.js';
+import {
+  NoteMetadata,
+  NoteContent,
+  NoteTarget,
+  NoteUpdateMode,
+  NoteMoveResult,
+  NoteDeleteResult,
+  FileChangePreview,
+  BackupRetention,
+  ErrorCode
+} from '../types/index.js';
 import matter from 'gray-matter';
-import { join } from 'path';
+import { join, posix } from 'path';
+
+// 削除したノートを移動するフォルダ（Obsidianの「Obsidianのゴミ箱に移動」と同じ）
+const TRASH_DIR = '.trash';
 
 export class NotesTool {
   private fileSystem: FileSystemHelper;
 
-  constructor(vaultPath: string, backupRetentionDays: number = 30) {
-    this.fileSystem = new FileSystemHelper(vaultPath, backupRetentionDays);
+  constructor(vaultPath: string, backupRetention: BackupRetention = DEFAULT_BACKUP_RETENTION) {
+    this.fileSystem = new FileSystemHelper(vaultPath, backupRetention);
   }
 
   /**
@@ -54,14 +73,15 @@ export class NotesTool {
   static getReadNoteToolDefinition(): Tool {
     return {
       name: 'read_obsidian_note',
-      description: 'Read content of an existing Obsidian note',
+      description: 'Read content of an existing Obsidian note, or only one section, block or task of it. Also returns a content hash to pass as expectedHash when updating or translating the note',
       inputSchema: {
         type: 'object',
         properties: {
           path: {
             type: 'string',
             description: 'Path to the note (relative to vault root)'
-          }
+          },
+          ...NotesTool.getTargetProperties('Read only')
         },
         required: ['path']
       }
@@ -89,13 +109,23 @@ export class NotesTool {
           mode: {
             type: 'string',
             enum: ['replace', 'append', 'prepend'],
-            description: 'Update mode: replace, append, or prepend content',
+            description: 'Update mode: replace, append, or prepend content. With section: replace everything under the heading (including subsections), or insert at the end/start of the section. With blockId or task: replace the block or line (the block ID is kept), or insert after/before it',
             default: 'replace'
           },
+          ...NotesTool.getTargetProperties('Update only'),
           createBackup: {
             type: 'boolean',
             description: 'Whether to create a backup before updating',
             default: true
+          },
+          expectedHash: {
+            type: 'string',
+            description: 'Content hash returned by read_obsidian_note. If the note has changed since then, nothing is written and a CONFLICT error with a three-way diff is returned'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Return a diff of the would-be changes without writing the file or creating a backup',
+            default: false
           }
         },
         required: ['path', 'content']
@@ -103,6 +133,96 @@ export class NotesTool {
     };
   }
 
+  /**
+   * 読み取り・更新の範囲を指定するパラメーターの定義を取得
+   * @param action 説明の先頭（"Read only" など）
+   * @returns パラメーターの定義
+   */
+  private static getTargetProperties(action: string): Record<string, object> {
+    return {
+      section: {
+        type: 'string',
+        description: `${action} the section under this heading path (e.g., "## Tasks" or "Project > Tasks")`
+      },
+      blockId: {
+        type: 'string',
+        description: `${action} the block with this block reference (e.g., "^summary")`
+      },
+      task: {
+        type: 'string',
+        description: `${action} the task line ("- [ ] ...") with this text (an exact match is preferred, otherwise a unique partial match)`
+      }
+    };
+  }
+
+  /**
+   * ノート移動ツールの定義を取得
+   */
+  static getMoveNoteToolDefinition(): Tool {
+    return {
+      name: 'move_obsidian_note',
+      description: 'Move a note to another path and rewrite every wikilink, embed and relative Markdown link across the vault that pointed at it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Current path of the note (relative to vault root, must end with .md)'
+          },
+          newPath: {
+            type: 'string',
+            description: 'New path of the note (relative to vault root, e.g., "archive/note.md"; .md is added when omitted)'
+          }
+        },
+        required: ['path', 'newPath']
+      }
+    };
+  }
+
+  /**
+   * ノート名変更ツールの定義を取得
+   */
+  static getRenameNoteToolDefinition(): Tool {
+    return {
+      name: 'rename_obsidian_note',
+      description: 'Rename a note within its folder and rewrite every link across the vault that pointed at it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Current path of the note (relative to vault root)'
+          },
+          newName: {
+            type: 'string',
+            description: 'New file name of the note (the .md extension is optional)'
+          }
+        },
+        required: ['path', 'newName']
+      }
+    };
+  }
+
+  /**
+   * ノート削除ツールの定義を取得
+   */
+  static getDeleteNoteToolDefinition(): Tool {
+    return {
+      name: 'delete_obsidian_note',
+      description: `Delete a note by moving it to the vault trash folder (${TRASH_DIR}). Returns the notes that still link to it`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Path of the note (relative to vault root)'
+          }
+        },
+        required: ['path']
+      }
+    };
+  }
+
   /**
    * 新しいノートを作成
    * @param path ノートのパス
@@ -150,8 +270,10 @@ export class NotesTool {
       // Frontmatterとコンテンツを結合
       const noteContent = matter.stringify(finalContent, frontmatter);
 
-      // ファイルを作成
-      await this.fileSystem.writeFile(path, noteContent);
+      // ファイルを作成し、作成した版を履歴に記録する
+      await this.fileSystem.beginTransaction()
+        .write(path, noteContent)
+        .commit('create');
 
       return {
         title,
@@ -171,16 +293,21 @@ export class NotesTool {
   /**
    * ノートを読み取り
    * @param path ノートのパス
-   * @returns ノートの内容
+   * @param target 読み取る範囲（見出し・ブロック・タスク、省略時は本文全体）
+   * @returns ノートの内容と、更新時の競合の検出に使うハッシュ（ノート全体）と更新日時
    */
-  async readNote(path: string): Promise<{ content: string; frontmatter: any }> {
+  async readNote(path: string, target: NoteTarget = {}): Promise<NoteContent> {
     try {
       const rawContent = await this.fileSystem.readFile(path);
       const { data: frontmatter, content } = matter(rawContent);
+      const region = MarkdownOutline.hasTarget(target) ? MarkdownOutline.resolve(rawContent, target) : null;
 
       return {
-        content,
-        frontmatter
+        content: region ? rawContent.split('\n').slice(region.start, region.end).join('\n') : content,
+        frontmatter,
+        hash: VersionStore.hash(rawContent),
+        modified: await this.fileSystem.getModifiedTime(path),
+        ...(region ? { region: region.label } : {})
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -196,13 +323,17 @@ export class NotesTool {
    * @param newContent 新しい内容
    * @param mode 更新モード
    * @param createBackup バックアップを作成するか
+   * @param expectedHash 読み込んだ時点の内容のハッシュ（変更されていた場合は更新しない）
+   * @param target 更新する範囲（見出し・ブロック・タスク、省略時は本文全体）
    * @returns 更新されたノートの情報
    */
   async updateNote(
     path: string,
     newContent: string,
-    mode: 'replace' | 'append' | 'prepend' = 'replace',
-    createBackup: boolean = true
+    mode: NoteUpdateMode = 'replace',
+    createBackup: boolean = true,
+    expectedHash?: string,
+    target: NoteTarget = {}
   ): Promise<NoteMetadata> {
     try {
       // ファイルの存在確認
@@ -210,39 +341,15 @@ export class NotesTool {
         throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${path}' not found`);
       }
 
-      // バックアップを作成
-      if (createBackup) {
-        await this.fileSystem.createBackup(path);
-      }
+      // 更新後のコンテンツを作成
+      const { noteContent, frontmatter } = await this.buildUpdatedContent(path, newContent, mode, target);
 
-      // 既存のコンテンツを読み取り
-      const { content: existingContent, frontmatter } = await this.readNote(path);
-
-      // 更新モードに応じてコンテンツを結合
-      let finalContent: string;
-      switch (mode) {
-        case 'replace':
-          finalContent = newContent;
-          break;
-        case 'append':
-          finalContent = existingContent + '\\n\\n' + newContent;
-          break;
-        case 'prepend':
-          finalContent = newContent + '\\n\\n' + existingContent;
-          break;
-        default:
-          throw new Error(`${ErrorCode.TRANSLATION_FAILED}: Invalid mode '${mode}'`);
+      // ファイルを更新（バックアップする場合は更新前にバックアップし、更新後の版も履歴に記録する）
+      const transaction = this.fileSystem.beginTransaction().write(path, noteContent);
+      if (expectedHash) {
+        transaction.expect(path, expectedHash);
       }
-
-      // Frontmatterを更新
-      const updatedFrontmatter = {
-        ...frontmatter,
-        modified: new Date().toISOString()
-      };
-
-      // ファイルを更新
-      const noteContent = matter.stringify(finalContent, updatedFrontmatter);
-      await this.fileSystem.writeFile(path, noteContent);
+      await transaction.commit(createBackup ? 'update' : undefined);
 
       return {
         title: frontmatter.title || path.split('/').pop()?.replace('.md', '') || 'Untitled',
@@ -259,6 +366,242 @@ export class NotesTool {
     }
   }
 
+  /**
+   * ノート更新のプレビューを作成（ファイルは変更しない）
+   * @param path ノートのパス
+   * @param newContent 新しい内容
+   * @param mode 更新モード
+   * @param expectedHash 読み込んだ時点の内容のハッシュ（変更されていた場合は CONFLICT）
+   * @param target 更新する範囲（見出し・ブロック・タスク、省略時は本文全体）
+   * @returns 更新後の内容と現在のファイルとの差分
+   */
+  async previewUpdateNote(
+    path: string,
+    newContent: string,
+    mode: NoteUpdateMode = 'replace',
+    expectedHash?: string,
+    target: NoteTarget = {}
+  ): Promise<FileChangePreview> {
+    if (!(await this.fileSystem.exists(path))) {
+      throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${path}' not found`);
+    }
+
+    const currentContent = await this.fileSystem.readFile(path);
+    const { noteContent } = await this.buildUpdatedContent(path, newContent, mode, target);
+    if (expectedHash) {
+      await this.fileSystem.assertUnchanged(path, expectedHash, currentContent, noteContent);
+    }
+
+    return createNotePreview(path, currentContent, noteContent);
+  }
+
+  /**
+   * 更新モードに応じて更新後のノートの内容を作成
+   * @param path ノートのパス
+   * @param newContent 新しい内容
+   * @param mode 更新モード
+   * @param target 更新する範囲（省略時は本文全体）
+   * @returns 更新後のノートの内容とFrontmatter
+   */
+  private async buildUpdatedContent(
+    path: string,
+    newContent: string,
+    mode: NoteUpdateMode,
+    target: NoteTarget = {}
+  ): Promise<{ noteContent: string; frontmatter: any }> {
+    if (!['replace', 'append', 'prepend'].includes(mode)) {
+      throw new Error(`${ErrorCode.TRANSLATION_FAILED}: Invalid mode '${mode}'`);
+    }
+
+    // 既存のコンテンツを読み取り
+    const rawContent = await this.fileSystem.readFile(path);
+    const { data: frontmatter, content: existingContent } = matter(rawContent);
+
+    // 更新モードに応じてコンテンツを結合（範囲の指定がある場合はその範囲のみを変更する）
+    let updatedContent: string;
+    if (MarkdownOutline.hasTarget(target)) {
+      updatedContent = this.spliceTarget(rawContent, target, newContent, mode);
+    } else {
+      const finalContent = mode === 'append'
+        ? existingContent.replace(/\n+$/, '') + '\n\n' + newContent
+        : mode === 'prepend'
+          ? newContent + '\n\n' + existingContent
+          : newContent;
+      // matter.stringify と同じく本文は改行で終える
+      updatedContent = FrontmatterEditor.replaceBody(
+        rawContent,
+        finalContent.endsWith('\n') ? finalContent : `${finalContent}\n`
+      );
+    }
+
+    // Frontmatterの modified のみを書き換え、他のプロパティの書式・コメントは残す
+    return {
+      noteContent: FrontmatterEditor.apply(updatedContent, new Map([['modified', new Date().toISOString()]])),
+      frontmatter
+    };
+  }
+
+  /**
+   * ノートの見出し・ブロック・タスクの範囲に内容を挿入する、または範囲を置き換える
+   * 見出しの場合は見出しの行を残し、ブロックを置き換える場合はブロックIDを引き継ぐ
+   * @param content ノートの内容（Frontmatterを含む）
+   * @param target 範囲の指定
+   * @param text 挿入する、または置き換える内容
+   * @param mode replace: 置き換え / append: 範囲の末尾（後）に挿入 / prepend: 範囲の先頭（前）に挿入
+   * @returns 変更後のノートの内容
+   */
+  private spliceTarget(content: string, target: NoteTarget, text: string, mode: NoteUpdateMode): string {
+    const lines = content.split('\n');
+    const { start, end } = MarkdownOutline.resolve(content, target);
+    const newLines = text.replace(/\n+$/, '').split('\n');
+
+    // 見出しの内容は見出しの次の行から
+    const contentStart = target.section !== undefined ? start + 1 : start;
+
+    if (mode === 'replace' && target.blockId !== undefined) {
+      const id = MarkdownOutline.normalizeBlockId(target.blockId);
+      if (!MarkdownOutline.blockIdPattern(id, 'm').test(text)) {
+        // 単独行のIDは単独行のまま、行末のIDは最後の行の末尾に付け直す
+        if (lines[end - 1].trim().startsWith('^')) {
+          newLines.push(`^${id}`);
+        } else {
+          newLines[newLines.length - 1] += ` ^${id}`;
+        }
+      }
+    }
+
+    // タスクをテキストのみで置き換える場合は、チェックボックスと字下げを引き継ぐ
+    if (mode === 'replace' && target.task !== undefined && newLines.length === 1 && !TASK_PATTERN.test(newLines[0])) {
+      newLines[0] = lines[start].match(TASK_PATTERN)![1] + newLines[0].trim();
+    }
+
+    switch (mode) {
+      case 'replace':
+        lines.splice(contentStart, end - contentStart, ...newLines);
+        break;
+      case 'append':
+        lines.splice(end, 0, ...newLines);
+        break;
+      case 'prepend':
+        lines.splice(contentStart, 0, ...newLines);
+        break;
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * ノートを移動し、Vault内のノートからのリンクを書き換える
+   * 移動したノート自身の相対パスのリンクも、移動後も同じファイルを指すように書き換える
+   * @param path 移動するノートのパス（.md のみ）
+   * @param targetPath 移動先のパス（拡張子 .md は省略可）
+   * @returns 移動したノートと、リンクを書き換えたノート
+   */
+  async moveNote(path: string, targetPath: string): Promise<NoteMoveResult> {
+    ObsidianUrlParser.validatePath(path);
+    ObsidianUrlParser.validatePath(targetPath);
+    if (!path.endsWith('.md')) {
+      throw new Error(`${ErrorCode.INVALID_PATH}: Only notes (.md files) can be moved: '${path}'`);
+    }
+    const newPath = targetPath.endsWith('.md') ? targetPath : `${targetPath}.md`;
+
+    if (!(await this.fileSystem.exists(path))) {
+      throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${path}' not found`);
+    }
+    if (newPath === path) {
+      return { path, newPath, updatedNotes: [], rewrittenLinks: 0 };
+    }
+    if (await this.fileSystem.exists(newPath)) {
+      throw new Error(`${ErrorCode.FILE_EXISTS}: File '${newPath}' already exists`);
+    }
+
+    const files = await this.fileSystem.listFiles();
+    const moves = new Map([[path, newPath]]);
+    const transaction = this.fileSystem.beginTransaction();
+    const updatedNotes: string[] = [];
+    let rewrittenLinks = 0;
+
+    for (const file of files.filter(file => file.endsWith('.md'))) {
+      const content = await this.fileSystem.readFile(file);
+      const { content: rewrittenContent, rewritten } = LinkRewriter.rewrite(
+        content,
+        file,
+        moves.get(file) ?? file,
+        moves,
+        files
+      );
+      rewrittenLinks += rewritten;
+
+      if (file === path) {
+        transaction.write(newPath, rewrittenContent).delete(path);
+      } else if (rewritten > 0) {
+        transaction.write(file, rewrittenContent);
+        updatedNotes.push(file);
+      } else {
+        continue;
+      }
+      // 読み込んだ後に変更されたノートは上書きしない
+      transaction.expect(file, VersionStore.hash(content), content);
+    }
+
+    // すべてのノートをまとめて書き込み、途中で失敗した場合は移動も取り消す
+    await transaction.commit('move');
+    return { path, newPath, updatedNotes, rewrittenLinks };
+  }
+
+  /**
+   * 同じフォルダ内でノートの名前を変更し、Vault内のノートからのリンクを書き換える
+   * @param path ノートのパス
+   * @param newName 新しいファイル名（拡張子 .md は省略可）
+   * @returns 移動したノートと、リンクを書き換えたノート
+   */
+  async renameNote(path: string, newName: string): Promise<NoteMoveResult> {
+    if (!newName.trim() || newName.includes('/')) {
+      throw new Error(`${ErrorCode.INVALID_PATH}: New name must be a file name without folders`);
+    }
+    const fileName = newName.endsWith('.md') ? newName : `${newName}.md`;
+    const folder = posix.dirname(path);
+    return await this.moveNote(path, folder === '.' ? fileName : `${folder}/${fileName}`);
+  }
+
+  /**
+   * ノートをVaultのゴミ箱フォルダに移動して削除する
+   * 同じ名前のファイルがゴミ箱にある場合は番号を付ける
+   * @param path ノートのパス（.md のみ）
+   * @returns ゴミ箱での保存先と、削除したノートへのリンクが残っているノート
+   */
+  async deleteNote(path: string): Promise<NoteDeleteResult> {
+    ObsidianUrlParser.validatePath(path);
+    if (!path.endsWith('.md')) {
+      throw new Error(`${ErrorCode.INVALID_PATH}: Only notes (.md files) can be deleted: '${path}'`);
+    }
+
+    if (!(await this.fileSystem.exists(path))) {
+      throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${path}' not found`);
+    }
+
+    const name = posix.basename(path, '.md');
+    let trashPath = `${TRASH_DIR}/${name}.md`;
+    for (let n = 1; await this.fileSystem.exists(trashPath); n++) {
+      trashPath = `${TRASH_DIR}/${name} ${n}.md`;
+    }
+
+    const files = await this.fileSystem.listFiles();
+    const backlinks: string[] = [];
+    for (const file of files.filter(file => file.endsWith('.md') && file !== path)) {
+      if (LinkRewriter.countLinksTo(await this.fileSystem.readFile(file), file, path, files) > 0) {
+        backlinks.push(file);
+      }
+    }
+
+    const content = await this.fileSystem.readFile(path);
+    await this.fileSystem.beginTransaction()
+      .write(trashPath, content)
+      .delete(path)
+      .commit('delete');
+
+    return { path, trashPath, backlinks };
+  }
+
   /**
    * Daily Noteを作成
    * @param date 日付（オプション、デフォルトは今日）
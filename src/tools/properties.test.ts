@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { jest } from '@jest/globals';
+import { PropertiesTool } from './properties.js';
+import { FileSystemHelper } from '../utils/file-system.js';
+
+describe('PropertiesTool', () => {
+  let vault: string;
+  let tool: PropertiesTool;
+
+  beforeEach(async () => {
+    vault = await fs.mkdtemp(join(tmpdir(), 'obsidian-mcp-'));
+    tool = new PropertiesTool(vault);
+    await fs.writeFile(join(vault, 'A.md'), '---\n# comment\ntitle: A\ntags: [one]\n---\nA\n');
+    await fs.writeFile(join(vault, 'B.md'), '---\ncount: 3\n---\nB\n');
+    await fs.writeFile(join(vault, 'C.md'), 'C\n');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(vault, { recursive: true, force: true });
+  });
+
+  const read = (path: string) => fs.readFile(join(vault, path), 'utf-8');
+
+  it('applies the operations in order and keeps the other properties as written', async () => {
+    const report = await tool.updateProperties({
+      paths: ['A.md'],
+      operations: [
+        { op: 'append', key: 'tags', value: ['two', 'one'] },
+        { op: 'set', key: 'due', value: '2024-05-01', type: 'date' },
+        { op: 'merge', key: 'meta', value: { review: { done: false } } },
+        { op: 'unset', key: 'title' }
+      ]
+    });
+
+    expect(report).toMatchObject({ updated: 1, unchanged: 0, failed: 0, dryRun: false });
+    expect(report.items[0].changed.sort()).toEqual(['due', 'meta', 'tags', 'title']);
+    expect(await read('A.md')).toBe(
+      '---\n# comment\ntags:\n  - one\n  - two\ndue: 2024-05-01\nmeta:\n  review:\n    done: false\n---\nA\n'
+    );
+  });
+
+  it('reports notes whose values do not match the property type and updates the others', async () => {
+    await fs.mkdir(join(vault, '.obsidian'));
+    await fs.writeFile(join(vault, '.obsidian', 'types.json'), JSON.stringify({ types: { count: 'number' } }));
+
+    const report = await tool.updateProperties({
+      paths: ['B.md', 'C.md'],
+      operations: [{ op: 'set', key: 'count', value: 'many' }]
+    });
+
+    expect(report.items.map(item => [item.path, item.status])).toEqual([['B.md', 'failed'], ['C.md', 'failed']]);
+    expect(report.items[0].reason).toMatch(/^INVALID_PROPERTY: Property 'count' is of type number/);
+
+    const typed = await tool.updateProperties({
+      paths: ['B.md', 'C.md'],
+      operations: [{ op: 'set', key: 'count', value: 'many', type: 'text' }]
+    });
+    expect(typed.updated).toBe(2);
+    expect(await read('C.md')).toBe('---\ncount: many\n---\nC\n');
+  });
+
+  it('reports a note edited after it was read as failed without undoing the other notes', async () => {
+    const readFile = FileSystemHelper.prototype.readFile;
+    jest.spyOn(FileSystemHelper.prototype, 'readFile').mockImplementation(async function (this: FileSystemHelper, path) {
+      const content = await readFile.call(this, path);
+      if (path === 'B.md' && content.includes('count: 3')) {
+        // 読み込んだ直後に別のアプリで編集される
+        await fs.writeFile(join(vault, 'B.md'), '---\ncount: 4\n---\nB\n');
+      }
+      return content;
+    });
+
+    const report = await tool.updateProperties({
+      paths: ['A.md', 'B.md', 'C.md'],
+      operations: [{ op: 'set', key: 'status', value: 'done' }]
+    });
+
+    expect(report.items.map(item => [item.path, item.status])).toEqual([
+      ['A.md', 'updated'],
+      ['B.md', 'failed'],
+      ['C.md', 'updated']
+    ]);
+    expect(report.items[1].reason).toMatch(/^CONFLICT:/);
+    expect(await read('A.md')).toContain('status: done');
+    expect(await read('B.md')).toBe('---\ncount: 4\n---\nB\n');
+    expect(await read('C.md')).toBe('---\nstatus: done\n---\nC\n');
+  });
+
+  it('returns diffs without writing in a dry run', async () => {
+    const report = await tool.updateProperties({
+      paths: ['A.md', 'B.md'],
+      operations: [{ op: 'set', key: 'count', value: 3 }],
+      dryRun: true
+    });
+
+    expect(report.items.map(item => [item.path, item.status])).toEqual([['A.md', 'updated'], ['B.md', 'unchanged']]);
+    expect(report.items[0].preview?.frontmatterDiff).toContain('+count: 3');
+    expect(await read('A.md')).not.toContain('count');
+  });
+});
@@ -0,0 +1,401 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { FileSystemHelper } from '../utils/file-system.js';
+import { VersionStore, DEFAULT_BACKUP_RETENTION } from '../utils/version-store.js';
+import { ObsidianUrlParser } from '../utils/obsidian-url.js';
+import { FrontmatterEditor } from '../utils/frontmatter-editor.js';
+import { NoteSelector } from '../utils/note-selector.js';
+import { createNotePreview } from '../utils/diff.js';
+import {
+  PropertyType,
+  PropertyOperation,
+  PropertyUpdateRequest,
+  PropertyUpdateItem,
+  PropertyUpdateReport,
+  BackupRetention,
+  ErrorCode
+} from '../types/index.js';
+import matter from 'gray-matter';
+
+// Obsidianがプロパティの型を保存するファイル
+const PROPERTY_TYPES_PATH = '.obsidian/types.json';
+
+// types.json の型とこのツールの型の対応
+const OBSIDIAN_PROPERTY_TYPES: Record<string, PropertyType> = {
+  text: 'text',
+  multitext: 'list',
+  tags: 'list',
+  aliases: 'list',
+  number: 'number',
+  checkbox: 'checkbox',
+  date: 'date',
+  datetime: 'datetime'
+};
+
+// types.json に記録がなくてもObsidianがリストとして扱うプロパティ
+const DEFAULT_PROPERTY_TYPES: Record<string, PropertyType> = {
+  tags: 'list',
+  aliases: 'list',
+  cssclasses: 'list'
+};
+
+const PROPERTY_OPERATIONS = ['set', 'unset', 'append', 'merge'];
+
+export class PropertiesTool {
+  private fileSystem: FileSystemHelper;
+
+  constructor(vaultPath: string, backupRetention: BackupRetention = DEFAULT_BACKUP_RETENTION) {
+    this.fileSystem = new FileSystemHelper(vaultPath, backupRetention);
+  }
+
+  /**
+   * プロパティ更新ツールの定義を取得
+   */
+  static getUpdatePropertiesToolDefinition(): Tool {
+    return {
+      name: 'update_obsidian_note_properties',
+      description: 'Set, unset, append to list properties or merge nested objects in the frontmatter of one or many notes, keeping the order and formatting of other properties. Values are validated against Obsidian property types',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operations: {
+            type: 'array',
+            description: 'Changes to apply in order',
+            items: {
+              type: 'object',
+              properties: {
+                op: {
+                  type: 'string',
+                  enum: PROPERTY_OPERATIONS,
+                  description: 'set: set the value / unset: remove the property / append: add items to a list property (existing items are skipped) / merge: deep-merge an object into an object property'
+                },
+                key: {
+                  type: 'string',
+                  description: 'Property name'
+                },
+                value: {
+                  description: 'Value for set, item or items for append, object for merge'
+                },
+                type: {
+                  type: 'string',
+                  enum: ['text', 'list', 'number', 'checkbox', 'date', 'datetime'],
+                  description: 'Property type to validate against (default: the type in .obsidian/types.json, otherwise the type of the current value)'
+                }
+              },
+              required: ['op', 'key']
+            }
+          },
+          paths: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Notes to update (relative to vault root)'
+          },
+          folder: {
+            type: 'string',
+            description: 'Update notes in this folder (relative to vault root)'
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Update notes with any of these tags'
+          },
+          query: {
+            type: 'string',
+            description: 'Update notes whose content contains this text'
+          },
+          maxNotes: {
+            type: 'number',
+            description: 'Maximum number of notes to update'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Return a diff of the would-be changes without writing files',
+            default: false
+          }
+        },
+        required: ['operations']
+      }
+    };
+  }
+
+  /**
+   * ノートのプロパティを更新する
+   * 型が一致しない・読み込んだ後に変更されたなど変更できないノートは失敗として報告し、他のノートは更新する
+   * （ノートごとに書き込むため、1つのノートの失敗で他のノートの変更は元に戻さない）
+   * @param request 変更と対象のノート
+   * @returns ノートごとの結果
+   */
+  async updateProperties(request: PropertyUpdateRequest): Promise<PropertyUpdateReport> {
+    PropertiesTool.validateOperations(request.operations);
+    const paths = await this.selectNotes(request);
+    const types = await this.loadPropertyTypes();
+    const dryRun = request.dryRun ?? false;
+
+    const items: PropertyUpdateItem[] = [];
+
+    for (const path of paths) {
+      try {
+        const content = await this.fileSystem.readFile(path);
+        // キャッシュされた結果を変更しないよう、オプションを渡してキャッシュを回避する
+        const { values, changed, dates } = PropertiesTool.applyOperations(
+          matter(content, {}).data,
+          request.operations,
+          types
+        );
+        if (changed.length === 0) {
+          items.push({ path, status: 'unchanged', changed });
+          continue;
+        }
+
+        // 日付はObsidianと同じく引用符で囲まずに書き込む
+        const updatedContent = FrontmatterEditor.apply(content, values, dates);
+        if (dryRun) {
+          items.push({ path, status: 'updated', changed, preview: createNotePreview(path, content, updatedContent) });
+        } else {
+          // 読み込んだ後に変更されたノートは上書きしない
+          await this.fileSystem.beginTransaction()
+            .write(path, updatedContent)
+            .expect(path, VersionStore.hash(content), content)
+            .commit('update');
+          items.push({ path, status: 'updated', changed });
+        }
+      } catch (error) {
+        items.push({
+          path,
+          status: 'failed',
+          changed: [],
+          reason: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (!dryRun && items.some(item => item.status === 'updated')) {
+      await this.fileSystem.cleanupOldBackups();
+    }
+
+    return {
+      items,
+      updated: items.filter(item => item.status === 'updated').length,
+      unchanged: items.filter(item => item.status === 'unchanged').length,
+      failed: items.filter(item => item.status === 'failed').length,
+      dryRun
+    };
+  }
+
+  /**
+   * 変更の指定を検証する
+   * @param operations 変更
+   * @throws 不正な場合は INVALID_PROPERTY
+   */
+  private static validateOperations(operations: PropertyOperation[]): void {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new Error(`${ErrorCode.INVALID_PROPERTY}: At least one operation is required`);
+    }
+    for (const operation of operations) {
+      if (!PROPERTY_OPERATIONS.includes(operation.op)) {
+        throw new Error(`${ErrorCode.INVALID_PROPERTY}: Invalid operation '${operation.op}'`);
+      }
+      if (typeof operation.key !== 'string' || !operation.key.trim()) {
+        throw new Error(`${ErrorCode.INVALID_PROPERTY}: Property name is required`);
+      }
+      if (operation.op !== 'unset' && operation.value === undefined) {
+        throw new Error(`${ErrorCode.INVALID_PROPERTY}: Operation '${operation.op}' on '${operation.key}' requires a value`);
+      }
+      if (operation.type !== undefined && !Object.values(OBSIDIAN_PROPERTY_TYPES).includes(operation.type)) {
+        throw new Error(`${ErrorCode.INVALID_PROPERTY}: Invalid property type '${operation.type}'`);
+      }
+    }
+  }
+
+  /**
+   * ノートのプロパティに変更を順に適用する
+   * @param data 現在のプロパティ
+   * @param operations 変更
+   * @param types プロパティの型（.obsidian/types.json）
+   * @returns 変更したキーと新しい値（削除したキーは undefined）、日付の型で設定したキー
+   * @throws 値が型と一致しない場合は INVALID_PROPERTY
+   */
+  private static applyOperations(
+    data: Record<string, unknown>,
+    operations: PropertyOperation[],
+    types: Record<string, PropertyType>
+  ): { values: Map<string, unknown>; changed: string[]; dates: Set<string> } {
+    const properties: Record<string, unknown> = { ...data };
+    const dates = new Set<string>();
+
+    for (const { op, key, value, type: specifiedType } of operations) {
+      const current = properties[key];
+      const type = specifiedType ?? types[key] ?? DEFAULT_PROPERTY_TYPES[key] ?? this.inferType(current);
+
+      switch (op) {
+        case 'unset':
+          delete properties[key];
+          break;
+
+        case 'set':
+          if (type) {
+            this.validateValue(key, value, type);
+          }
+          properties[key] = value;
+          if ((type === 'date' || type === 'datetime') && typeof value === 'string') {
+            dates.add(key);
+          } else {
+            dates.delete(key);
+          }
+          break;
+
+        case 'append': {
+          if (type && type !== 'list') {
+            throw new Error(`${ErrorCode.INVALID_PROPERTY}: Cannot append to '${key}' of type ${type}`);
+          }
+          const items = Array.isArray(value) ? value : [value];
+          this.validateValue(key, items, 'list');
+          // 文字列1つのリスト（tags: foo）もリストとして扱う
+          const list = Array.isArray(current) ? [...current] : current == null ? [] : [current];
+          properties[key] = [...list, ...items.filter((item, i) => !list.includes(item) && items.indexOf(item) === i)];
+          break;
+        }
+
+        case 'merge':
+          if (!this.isPlainObject(value)) {
+            throw new Error(`${ErrorCode.INVALID_PROPERTY}: Value to merge into '${key}' must be an object`);
+          }
+          if (current != null && !this.isPlainObject(current)) {
+            throw new Error(`${ErrorCode.INVALID_PROPERTY}: Cannot merge into '${key}' because it is not an object`);
+          }
+          properties[key] = this.deepMerge(current ?? {}, value);
+          break;
+      }
+    }
+
+    const keys = new Set([...Object.keys(data), ...Object.keys(properties)]);
+    const changed = [...keys].filter(key => JSON.stringify(data[key]) !== JSON.stringify(properties[key]));
+    return { values: new Map(changed.map(key => [key, properties[key]])), changed, dates };
+  }
+
+  /**
+   * 値がプロパティの型と一致するか検証する（空の値 null はすべての型で許可する）
+   * @param key プロパティ名
+   * @param value 値
+   * @param type プロパティの型
+   * @throws 一致しない場合は INVALID_PROPERTY
+   */
+  private static validateValue(key: string, value: unknown, type: PropertyType): void {
+    if (value === null) {
+      return;
+    }
+
+    const valid = {
+      text: () => typeof value === 'string',
+      list: () => Array.isArray(value) && value.every(item => typeof item === 'string'),
+      number: () => typeof value === 'number' && Number.isFinite(value),
+      checkbox: () => typeof value === 'boolean',
+      date: () => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+      datetime: () =>
+        typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value) && !isNaN(Date.parse(value))
+    }[type]();
+
+    if (!valid) {
+      const expected = {
+        text: 'a string',
+        list: 'a list of strings',
+        number: 'a number',
+        checkbox: 'true or false',
+        date: 'a date (YYYY-MM-DD)',
+        datetime: 'a date and time (YYYY-MM-DDTHH:mm)'
+      }[type];
+      throw new Error(
+        `${ErrorCode.INVALID_PROPERTY}: Property '${key}' is of type ${type} and must be ${expected} (got ${JSON.stringify(value)}). Pass type to change the type`
+      );
+    }
+  }
+
+  /**
+   * 現在の値からプロパティの型を判定する
+   * @param value 現在の値
+   * @returns 型（値がない、またはオブジェクトの場合undefined）
+   */
+  private static inferType(value: unknown): PropertyType | undefined {
+    if (value instanceof Date) {
+      // 日付のみの値は時刻が0時（UTC）になる
+      return value.getUTCHours() + value.getUTCMinutes() + value.getUTCSeconds() === 0 ? 'date' : 'datetime';
+    }
+    if (Array.isArray(value)) {
+      return 'list';
+    }
+    switch (typeof value) {
+      case 'string':
+        return 'text';
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'checkbox';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * オブジェクトを再帰的に統合する（オブジェクト以外の値は上書きする）
+   * @param target 統合先
+   * @param source 統合する値
+   * @returns 統合したオブジェクト
+   */
+  private static deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = this.isPlainObject(value) && this.isPlainObject(merged[key])
+        ? this.deepMerge(merged[key] as Record<string, unknown>, value)
+        : value;
+    }
+    return merged;
+  }
+
+  /**
+   * 値がオブジェクト（配列・日付を除く）か判定する
+   * @param value 値
+   * @returns オブジェクトの場合true
+   */
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+
+  /**
+   * 更新するノートを選択する（フォルダ・タグ・検索クエリはバッチ翻訳と同じ条件で選択する）
+   * @param request パス、またはフォルダ・タグ・検索クエリ
+   * @returns ノートのパスの一覧
+   */
+  private async selectNotes(request: PropertyUpdateRequest): Promise<string[]> {
+    if (request.paths && request.paths.length > 0) {
+      request.paths.forEach(path => ObsidianUrlParser.validatePath(path));
+      return request.maxNotes ? request.paths.slice(0, request.maxNotes) : request.paths;
+    }
+    if (!request.folder && !(request.tags && request.tags.length > 0) && !request.query) {
+      throw new Error(`${ErrorCode.INVALID_PROPERTY}: Specify paths or at least one of folder, tags or query`);
+    }
+    return await NoteSelector.select(this.fileSystem, request);
+  }
+
+  /**
+   * Obsidianに設定されたプロパティの型を読み込む
+   * @returns プロパティ名と型の対応（読み込めない場合は空）
+   */
+  private async loadPropertyTypes(): Promise<Record<string, PropertyType>> {
+    if (!(await this.fileSystem.exists(PROPERTY_TYPES_PATH))) {
+      return {};
+    }
+
+    try {
+      const { types } = JSON.parse(await this.fileSystem.readFile(PROPERTY_TYPES_PATH));
+      const result: Record<string, PropertyType> = {};
+      for (const [key, type] of Object.entries(types ?? {})) {
+        if (typeof type === 'string' && OBSIDIAN_PROPERTY_TYPES[type]) {
+          result[key] = OBSIDIAN_PROPERTY_TYPES[type];
+        }
+      }
+      return result;
+    } catch (error) {
+      console.warn(`Warning: Failed to load property types '${PROPERTY_TYPES_PATH}': ${error}`);
+      return {};
+    }
+  }
+}
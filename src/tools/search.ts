@@ -1,13 +1,14 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { FileSystemHelper } from '../utils/file-system.js';
-import { SearchResult, NoteMetadata, ErrorCode } from '../types/index.js';
+import { DEFAULT_BACKUP_RETENTION } from '../utils/version-store.js';
+import { SearchResult, NoteMetadata, BackupRetention, ErrorCode } from '../types/index.js';
 import matter from 'gray-matter';
 
 export class SearchTool {
   private fileSystem: FileSystemHelper;
 
-  constructor(vaultPath: string, backupRetentionDays: number = 30) {
-    this.fileSystem = new FileSystemHelper(vaultPath, backupRetentionDays);
+  constructor(vaultPath: string, backupRetention: BackupRetention = DEFAULT_BACKUP_RETENTION) {
+    this.fileSystem = new FileSystemHelper(vaultPath, backupRetention);
   }
 
   /**
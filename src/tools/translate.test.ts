@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import matter from 'gray-matter';
+import { TranslateTool } from './translate.js';
+import { TranslationMemory, TRANSLATION_MEMORY_PATH } from '../utils/translation-memory.js';
+
+const NOTE = '---\ntitle: Note\n---\n# Note\n\nThe quick brown fox is in the house and it is with the dog.\n';
+
+describe('TranslateTool', () => {
+  let vault: string;
+  let tool: TranslateTool;
+
+  beforeEach(async () => {
+    vault = await fs.mkdtemp(join(tmpdir(), 'obsidian-mcp-'));
+    tool = new TranslateTool(vault, { provider: 'pseudo' }, 'test');
+    await fs.writeFile(join(vault, 'Note.md'), NOTE);
+  });
+
+  afterEach(async () => {
+    await fs.rm(vault, { recursive: true, force: true });
+  });
+
+  it('appends only the translated body and merges the metadata into the frontmatter', async () => {
+    await tool.executeBatch({ targetLanguage: 'de', mode: 'append' });
+
+    const { data, content } = matter(await fs.readFile(join(vault, 'Note.md'), 'utf-8'));
+    expect(data.title).toBe('Note');
+    expect(data.translated.target_language).toBe('de');
+    expect(content).not.toContain('\\n');
+    expect(content.match(/^---$/gm)).toHaveLength(1);
+    expect(content.startsWith('# Note\n\nThe quick brown fox')).toBe(true);
+  });
+
+  it('translates the selected notes in a batch and skips notes already translated', async () => {
+    await fs.mkdir(join(vault, 'docs'));
+    await fs.writeFile(join(vault, 'docs', 'A.md'), '---\ntags: [guide]\n---\nFirst note.\n');
+    await fs.writeFile(
+      join(vault, 'docs', 'B.md'),
+      '---\ntags: [guide]\ntranslated:\n  target_language: de\n---\nSecond note.\n'
+    );
+    await fs.writeFile(join(vault, 'docs', 'C.md'), '---\ntags: [other]\n---\nThird note.\n');
+
+    const report = await tool.executeBatch({ folder: 'docs', tags: ['guide'], targetLanguage: 'de', concurrency: 2 });
+
+    expect(report.items.map(item => [item.path, item.status])).toEqual([
+      ['docs/A.md', 'success'],
+      ['docs/B.md', 'skipped']
+    ]);
+    expect(report).toMatchObject({ succeeded: 1, failed: 0, skipped: 1 });
+    expect(await fs.readFile(join(vault, 'docs', 'A.md'), 'utf-8')).toContain('Ƒíŕšţ ñöţé.');
+  });
+
+  it('does not touch the vault in a dry run', async () => {
+    const report = await tool.executeBatch({ targetLanguage: 'de', mode: 'append', dryRun: true });
+
+    expect(report.succeeded).toBe(1);
+    expect(await fs.readdir(vault)).toEqual(['Note.md']);
+    expect(await fs.readFile(join(vault, 'Note.md'), 'utf-8')).toBe(NOTE);
+  });
+
+  it('writes parallel versions per language code and links them to the source note', async () => {
+    await tool.executeBatch({ targetLanguage: 'Deutsch', mode: 'parallel' });
+    await tool.executeBatch({ targetLanguage: 'fr', mode: 'parallel', parallelLayout: 'folder' });
+
+    const source = matter(await fs.readFile(join(vault, 'Note.md'), 'utf-8'));
+    expect(source.content).toBe(matter(NOTE).content);
+    expect(source.data.translations).toEqual({ de: '[[Note.de]]', fr: '[[fr/Note]]' });
+
+    const german = matter(await fs.readFile(join(vault, 'Note.de.md'), 'utf-8'));
+    expect(german.data.translation_of).toBe('[[Note]]');
+    expect(german.data.translations).toBeUndefined();
+    expect(matter(await fs.readFile(join(vault, 'fr', 'Note.md'), 'utf-8')).data.translation_of).toBe('[[Note]]');
+  });
+
+  it.each(['replace', 'append', 'interleaved', 'parallel'] as const)(
+    'skips a note already translated in %s mode unless forced',
+    async mode => {
+      await tool.executeBatch({ targetLanguage: 'de', mode });
+
+      const again = await tool.executeBatch({ targetLanguage: 'Deutsch', mode });
+      expect(again.items.find(item => item.path === 'Note.md')?.reason).toMatch(/^Already translated to Deutsch/);
+
+      const forced = await tool.executeBatch({ targetLanguage: 'de', mode, force: true });
+      expect(forced.items.find(item => item.path === 'Note.md')?.status).toBe('success');
+    }
+  );
+
+  it('translates again when the linked parallel version was deleted', async () => {
+    await tool.executeBatch({ targetLanguage: 'de', mode: 'parallel' });
+    await fs.rm(join(vault, 'Note.de.md'));
+
+    const report = await tool.executeBatch({ targetLanguage: 'de', mode: 'parallel' });
+
+    expect(report.items).toEqual([expect.objectContaining({ path: 'Note.md', status: 'success' })]);
+  });
+
+  it('skips a note already written in the target language', async () => {
+    await fs.writeFile(join(vault, 'Note.md'), 'Das ist die Notiz und sie ist nicht mit der anderen Notiz in dem Ordner.\n');
+
+    const report = await tool.executeBatch({ targetLanguage: 'Deutsch' });
+
+    expect(report.items[0]).toMatchObject({ status: 'skipped', reason: 'Already written in Deutsch (detected: de)' });
+  });
+
+  it('translates only the section given in the URL and leaves the rest of the note', async () => {
+    await fs.writeFile(join(vault, 'Guide.md'), '# Guide\n\n## Setup\n\nInstall it.\n\n## Usage\n\nRun it.\n');
+
+    const result = await tool.execute({ url: 'obsidian://open?vault=test&file=Guide.md%23Setup', targetLanguage: 'de' });
+
+    expect(result.region).toBe("Section 'Setup'");
+    expect(await fs.readFile(join(vault, 'Guide.md'), 'utf-8')).toBe(
+      '# Guide\n\n## Šéţüþ\n\nÍñšţáļļ íţ.\n\n## Usage\n\nRun it.\n'
+    );
+  });
+
+  it('appends the translation of a block after it without repeating the block id', async () => {
+    await fs.writeFile(join(vault, 'Guide.md'), 'Install it. ^install\n\nNext paragraph.\n');
+
+    await tool.execute({
+      url: 'obsidian://open?vault=test&file=Guide.md',
+      blockId: 'install',
+      mode: 'append',
+      targetLanguage: 'de'
+    });
+
+    expect(await fs.readFile(join(vault, 'Guide.md'), 'utf-8')).toBe(
+      'Install it. ^install\n\nÍñšţáļļ íţ.\n\nNext paragraph.\n'
+    );
+  });
+
+  it('points links in a parallel version to the translated siblings', async () => {
+    await fs.mkdir(join(vault, 'docs'));
+    await fs.writeFile(join(vault, 'docs', 'Other.md'), '# Other\n');
+    await fs.writeFile(join(vault, 'docs', 'Other.de.md'), '---\ntitle: Andere\n---\n# Andere\n');
+    await fs.writeFile(join(vault, 'docs', 'Missing.md'), '# Missing\n');
+    await fs.writeFile(
+      join(vault, 'docs', 'Guide.md'),
+      'See [[Other]], [[Other#Setup|setup]], ![[Other]], [[Missing]] and `[[Other]]`.\n'
+    );
+
+    const result = await tool.execute({
+      url: 'obsidian://open?vault=test&file=docs/Guide.md',
+      targetLanguage: 'de',
+      mode: 'parallel',
+      rewriteLinks: true
+    });
+
+    expect(result.links).toEqual({ rewritten: 3, untranslated: ['docs/Missing.md'] });
+    expect(matter(await fs.readFile(join(vault, 'docs', 'Guide.de.md'), 'utf-8')).content).toBe(
+      'Šéé [[docs/Other.de|Andere]], [[docs/Other.de#Setup|šéţüþ]], ![[docs/Other.de]], [[Missing]] áñď `[[Other]]`.\n'
+    );
+  });
+
+  it('records source hashes only for parallel versions', async () => {
+    await tool.executeBatch({ targetLanguage: 'de', mode: 'parallel' });
+    const parallel = matter(await fs.readFile(join(vault, 'Note.de.md'), 'utf-8')).data;
+    expect(parallel.translated.source_hash).toEqual(expect.any(String));
+    expect(Object.keys(parallel.translated.source_sections)).toEqual(['# Note']);
+
+    await tool.executeBatch({ targetLanguage: 'fr', mode: 'append' });
+    const appended = matter(await fs.readFile(join(vault, 'Note.md'), 'utf-8')).data;
+    expect(appended.translated.source_hash).toBeUndefined();
+  });
+
+  it('lists parallel versions whose source changed after the translation', async () => {
+    await fs.writeFile(join(vault, 'Note.md'), NOTE + '\n## Details\n\nMore text.\n');
+    await tool.executeBatch({ targetLanguage: 'de', mode: 'parallel' });
+    expect((await tool.listStaleTranslations()).stale).toEqual([]);
+
+    await fs.writeFile(join(vault, 'Note.md'), NOTE + '\n## Details\n\nChanged text.\n\n## New\n\nAdded.\n');
+    const report = await tool.listStaleTranslations();
+
+    expect(report).toMatchObject({ checked: 1, untracked: [] });
+    expect(report.stale).toEqual([
+      expect.objectContaining({
+        path: 'Note.de.md',
+        sourcePath: 'Note.md',
+        targetLanguage: 'de',
+        sourceMissing: false,
+        sections: { changed: ['# Note > ## Details'], added: ['# Note > ## New'], removed: [] }
+      })
+    ]);
+  });
+
+  it('translates again without the memory when a reused translation breaks the structure', async () => {
+    const list = '- [ ] Task one\n- [x] Task two';
+    await fs.mkdir(join(vault, 'tasks'));
+    await fs.writeFile(join(vault, 'tasks', 'Tasks.md'), list + '\n');
+    await fs.mkdir(join(vault, TRANSLATION_MEMORY_PATH, '..'), { recursive: true });
+    await fs.writeFile(
+      join(vault, TRANSLATION_MEMORY_PATH),
+      JSON.stringify({
+        version: 1,
+        entries: {
+          [TranslationMemory.key(list, 'de')]: { translation: '- [x] Ţášķ öñé\n- [x] Ţášķ ţŵö', updated: '2024-01-01' }
+        }
+      })
+    );
+
+    const report = await tool.executeBatch({ folder: 'tasks', targetLanguage: 'de' });
+
+    expect(report.items[0].status).toBe('success');
+    expect(matter(await fs.readFile(join(vault, 'tasks', 'Tasks.md'), 'utf-8')).content).toBe(
+      '- [ ] Ţášķ öñé\n- [x] Ţášķ ţŵö\n'
+    );
+  });
+});
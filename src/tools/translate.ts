@@ -1,23 +1,75 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ObsidianUrlParser } from '../utils/obsidian-url.js';
 import { FileSystemHelper } from '../utils/file-system.js';
+import { VersionStore, DEFAULT_BACKUP_RETENTION } from '../utils/version-store.js';
 import { TranslationService } from '../utils/translation.js';
-import { TranslationRequest, TranslationResult, ErrorCode } from '../types/index.js';
+import { TranslationMemory } from '../utils/translation-memory.js';
+import { Glossary } from '../utils/glossary.js';
+import { createTranslationProvider } from '../providers/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { createNotePreview } from '../utils/diff.js';
+import { LanguageCode } from '../utils/language.js';
+import { Interleaver } from '../utils/interleave.js';
+import { MarkdownStructure } from '../utils/structure.js';
+import { MarkdownOutline } from '../utils/outline.js';
+import { RateLimiter } from '../utils/rate-limiter.js';
+import { Usage } from '../utils/usage.js';
+import { WikiLinks } from '../utils/wikilinks.js';
+import { SourceFingerprint } from '../utils/source-fingerprint.js';
+import { TranslationJobQueue } from '../utils/job-queue.js';
+import { NoteSelector } from '../utils/note-selector.js';
+import {
+  TranslationRequest,
+  TranslationOptions,
+  TranslationResult,
+  TranslationOutput,
+  ParallelLayout,
+  TranslationProviderConfig,
+  BatchTranslationRequest,
+  BatchTranslationItem,
+  BatchTranslationReport,
+  GlossaryEntry,
+  FileChange,
+  FileChangePreview,
+  StructureMismatch,
+  NoteRegion,
+  LinkRewriteReport,
+  StaleTranslation,
+  StaleTranslationReport,
+  TranslationControl,
+  TranslationJob,
+  TranslationJobStatus,
+  BackupRetention,
+  BackupInfo,
+  ErrorCode
+} from '../types/index.js';
+import matter from 'gray-matter';
 
 export class TranslateTool {
   private fileSystem: FileSystemHelper;
   private translationService: TranslationService;
   private configuredVault: string;
+  private glossaryNotePath?: string;
+  private jobs: TranslationJobQueue;
 
   constructor(
     vaultPath: string,
-    anthropicApiKey: string,
+    providerConfig: TranslationProviderConfig,
     configuredVault: string,
-    backupRetentionDays: number = 30
+    backupRetention: BackupRetention = DEFAULT_BACKUP_RETENTION,
+    glossaryNotePath?: string,
+    rateLimiter?: RateLimiter
   ) {
-    this.fileSystem = new FileSystemHelper(vaultPath, backupRetentionDays);
-    this.translationService = new TranslationService(anthropicApiKey);
+    this.fileSystem = new FileSystemHelper(vaultPath, backupRetention);
+    this.translationService = new TranslationService(
+      createTranslationProvider(providerConfig, rateLimiter),
+      new TranslationMemory(this.fileSystem)
+    );
     this.configuredVault = configuredVault;
+    this.glossaryNotePath = glossaryNotePath;
+    this.jobs = new TranslationJobQueue(this.fileSystem, (job, control) =>
+      job.type === 'batch' ? this.executeBatch(job.request, control) : this.execute(job.request, control)
+    );
   }
 
   /**
@@ -32,7 +84,23 @@ export class TranslateTool {
         properties: {
           url: {
             type: 'string',
-            description: 'Obsidian URL in format: obsidian://open?vault=VaultName&file=path/to/note.md'
+            description: 'Obsidian URL in format: obsidian://open?vault=VaultName&file=path/to/note.md. A #Heading#Subheading or #^block-id fragment translates only that section or block'
+          },
+          section: {
+            type: 'string',
+            description: 'Translate only this heading section, given as a heading path such as "## Setup > ### Linux"'
+          },
+          blockId: {
+            type: 'string',
+            description: 'Translate only the block with this block ID (e.g. "^summary")'
+          },
+          startLine: {
+            type: 'number',
+            description: 'Translate only lines startLine..endLine (1-based, inclusive)'
+          },
+          endLine: {
+            type: 'number',
+            description: 'Last line of the range to translate (default: startLine)'
           },
           targetLanguage: {
             type: 'string',
@@ -41,9 +109,64 @@ export class TranslateTool {
           },
           mode: {
             type: 'string',
-            enum: ['replace', 'append', 'parallel'],
-            description: 'Translation mode: replace original, append translation, or create parallel version',
+            enum: ['replace', 'append', 'parallel', 'interleaved'],
+            description: 'Translation mode: replace original, append translation, create parallel version, or interleave each paragraph with its translation. With a section, block or line range only replace (in place) and append (directly below) are allowed',
             default: 'replace'
+          },
+          interleavedStyle: {
+            type: 'string',
+            enum: ['plain', 'callout', 'details'],
+            description: 'How translations are shown in interleaved mode: plain text, a callout, or a collapsible <details> block',
+            default: 'plain'
+          },
+          parallelLayout: {
+            type: 'string',
+            enum: ['suffix', 'folder'],
+            description: 'Where parallel versions are written: "suffix" (note.de.md) or "folder" (de/path/to/note.md)',
+            default: 'suffix'
+          },
+          translateFields: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Frontmatter keys to translate, e.g. ["title", "aliases", "description"]. Only string and string-list values are translated; originals are kept under translated.original'
+          },
+          useTranslationMemory: {
+            type: 'boolean',
+            description: 'Reuse cached translations of unchanged paragraphs from the translation memory',
+            default: true
+          },
+          rewriteLinks: {
+            type: 'boolean',
+            description: 'Parallel mode only: point wikilinks and embeds at the translated sibling of each linked note when one exists, and report links that have no translation yet',
+            default: false
+          },
+          force: {
+            type: 'boolean',
+            description: 'Translate even if the note is already written in, or already translated to, the target language',
+            default: false
+          },
+          verifyStructure: {
+            type: 'boolean',
+            description: 'Compare headings, lists, tables, code blocks, links and checkboxes of source and translation; retry once and refuse to write when they still differ',
+            default: true
+          },
+          glossaryNote: {
+            type: 'string',
+            description: 'Path to a glossary note (relative to vault root). Defaults to the configured glossary note'
+          },
+          expectedHash: {
+            type: 'string',
+            description: 'Content hash returned by read_obsidian_note. If the note has changed since then, it is not translated and a CONFLICT error is returned'
+          },
+          dryRun: {
+            type: 'boolean',
+            description: 'Return a diff of the would-be changes without writing files or creating backups',
+            default: false
+          },
+          async: {
+            type: 'boolean',
+            description: 'Queue the translation as a background job and return its job ID immediately. Check it with get_translation_job',
+            default: false
           }
         },
         required: ['url']
@@ -51,55 +174,361 @@ export class TranslateTool {
     };
   }
 
+  /**
+   * バッチ翻訳ツールの定義を取得
+   */
+  static getBatchToolDefinition(): Tool {
+    return {
+      name: 'translate_obsidian_notes_batch',
+      description: 'Translate multiple Obsidian notes selected by folder, tags or search query',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          folder: {
+            type: 'string',
+            description: 'Folder to select notes from (relative to vault root, optional)'
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Select notes having any of these tags (optional)'
+          },
+          query: {
+            type: 'string',
+            description: 'Select notes whose content matches this search query (optional)'
+          },
+          targetLanguage: {
+            type: 'string',
+            description: 'Target language for translation (default: 日本語)',
+            default: '日本語'
+          },
+          mode: {
+            type: 'string',
+            enum: ['replace', 'append', 'parallel', 'interleaved'],
+            description: 'Translation mode: replace original, append translation, create parallel version, or interleave each paragraph with its translation',
+            default: 'replace'
+          },
+          interleavedStyle: {
+            type: 'string',
+            enum: ['plain', 'callout', 'details'],
+            description: 'How translations are shown in interleaved mode: plain text, a callout, or a collapsible <details> block',
+            default: 'plain'
+          },
+          parallelLayout: {
+            type: 'string',
+            enum: ['suffix', 'folder'],
+            description: 'Where parallel versions are written: "suffix" (note.de.md) or "folder" (de/path/to/note.md)',
+            default: 'suffix'
+          },
+          concurrency: {
+            type: 'number',
+            description: 'Number of notes translated at the same time (1-10)',
+            default: 3
+          },
+          maxNotes: {
+            type: 'number',
+            description: 'Maximum number of notes to translate (optional)'
+          },
+          translateFields: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Frontmatter keys to translate, e.g. ["title", "aliases", "description"]. Only string and string-list values are translated; originals are kept under translated.original'
+          },
+          useTranslationMemory: {
+            type: 'boolean',
+            description: 'Reuse cached translations of unchanged paragraphs from the translation memory',
+            default: true
+          },
+          rewriteLinks: {
+            type: 'boolean',
+            description: 'Parallel mode only: point wikilinks and embeds at the translated sibling of each linked note when one exists, and report links that have no translation yet',
+            default: false
+          },
+          force: {
+            type: 'boolean',
+            description: 'Translate even if the note is already written in, or already translated to, the target language',
+            default: false
+          },
+          verifyStructure: {
+            type: 'boolean',
+            description: 'Compare headings, lists, tables, code blocks, links and checkboxes of source and translation; retry once and refuse to write when they still differ',
+            default: true
+          },
+          glossaryNote: {
+            type: 'string',
+            description: 'Path to a glossary note (relative to vault root). Defaults to the configured glossary note'
+          },
+          async: {
+            type: 'boolean',
+            description: 'Queue the batch as a background job and return its job ID immediately. Check it with get_translation_job',
+            default: false
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * 古くなった翻訳を一覧するMCPツールの定義を取得
+   */
+  static getStaleToolDefinition(): Tool {
+    return {
+      name: 'list_stale_translations',
+      description: 'List parallel translations whose source note has changed since they were translated, with the changed sections',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          folder: {
+            type: 'string',
+            description: 'Only scan translations in this folder (relative to the vault root, default: whole vault)'
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * 翻訳ジョブを取得するMCPツールの定義を取得
+   */
+  static getJobToolDefinition(): Tool {
+    return {
+      name: 'get_translation_job',
+      description: 'Get the status, progress and result of a background translation job',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: {
+            type: 'string',
+            description: 'Job ID returned by translate_obsidian_note or translate_obsidian_notes_batch with async: true'
+          }
+        },
+        required: ['jobId']
+      }
+    };
+  }
+
+  /**
+   * 翻訳ジョブを一覧するMCPツールの定義を取得
+   */
+  static getListJobsToolDefinition(): Tool {
+    return {
+      name: 'list_translation_jobs',
+      description: 'List background translation jobs, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'string',
+            enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+            description: 'Only list jobs in this status (default: all)'
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * 翻訳ジョブをキャンセルするMCPツールの定義を取得
+   */
+  static getCancelJobToolDefinition(): Tool {
+    return {
+      name: 'cancel_translation_job',
+      description: 'Cancel a queued or running translation job. A running job stops before its next chunk or note and leaves the note unchanged',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jobId: {
+            type: 'string',
+            description: 'ID of the job to cancel'
+          }
+        },
+        required: ['jobId']
+      }
+    };
+  }
+
   /**
    * 翻訳を実行
    * @param request 翻訳リクエスト
+   * @param control キャンセルと進捗の通知（省略可）
    * @returns 翻訳結果
    */
-  async execute(request: TranslationRequest): Promise<TranslationResult> {
+  async execute(request: TranslationRequest, control?: TranslationControl): Promise<TranslationResult> {
+    // URLを解析
+    const parsedUrl = ObsidianUrlParser.parse(request.url);
+    
+    // Vaultの検証
+    ObsidianUrlParser.validateVault(parsedUrl.vault, this.configuredVault);
+
+    // 範囲の指定（パラメーターがない場合はURLの #見出し / #^ブロックID）
+    const { section, blockId, startLine, endLine } = request;
+    const region = section !== undefined || blockId !== undefined || startLine !== undefined || endLine !== undefined
+      ? { section, blockId, startLine, endLine }
+      : parsedUrl.subpath
+        ? ObsidianUrlParser.toRegion(parsedUrl.subpath)
+        : null;
+
+    if (region) {
+      return await this.translateRegion(parsedUrl.path, region, request, control);
+    }
+    return await this.translateFile(parsedUrl.path, request, control);
+  }
+
+  /**
+   * Vault内のファイルを翻訳する
+   * 翻訳中にノートが変更された場合は書き込まずに CONFLICT とする
+   * @param filePath ファイルパス
+   * @param options 翻訳オプション（expectedHash を指定した場合は翻訳前にも確認する）
+   * @param control キャンセルと進捗の通知（省略可）
+   * @returns 翻訳結果
+   */
+  private async translateFile(
+    filePath: string,
+    options: TranslationOptions & Pick<TranslationRequest, 'expectedHash'>,
+    control?: TranslationControl
+  ): Promise<TranslationResult> {
     try {
-      // URLを解析
-      const parsedUrl = ObsidianUrlParser.parse(request.url);
-      
-      // Vaultの検証
-      ObsidianUrlParser.validateVault(parsedUrl.vault, this.configuredVault);
-      
       // パスの検証
-      ObsidianUrlParser.validatePath(parsedUrl.path);
+      ObsidianUrlParser.validatePath(filePath);
+
+      // 並列版のファイル名に使う言語コードを翻訳前に検証
+      if (options.mode === 'parallel') {
+        LanguageCode.fromTargetLanguage(options.targetLanguage || '日本語');
+      }
       
       // ファイルの存在確認
-      if (!(await this.fileSystem.exists(parsedUrl.path))) {
-        throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${parsedUrl.path}' not found`);
+      if (!(await this.fileSystem.exists(filePath))) {
+        throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${filePath}' not found`);
       }
 
-      // 元のファイルを読み込み
-      const originalContent = await this.fileSystem.readFile(parsedUrl.path);
-      
-      // バックアップを作成
-      const backupInfo = await this.fileSystem.createBackup(parsedUrl.path);
+      // 元のファイルを読み込み（呼び出し元が読み込んだ後に変更されている場合は翻訳しない）
+      const originalContent = await this.fileSystem.readFile(filePath);
+      if (options.expectedHash) {
+        await this.fileSystem.assertUnchanged(filePath, options.expectedHash, originalContent);
+      }
+      const targetLanguage = options.targetLanguage || '日本語';
+      const dryRun = options.dryRun ?? false;
+
+      // 原文の言語を推定し、翻訳が不要なノートはスキップする（force指定時を除く）
+      const { data: frontmatter, content: body } = matter(originalContent);
+      const sourceLanguage = LanguageCode.detect(body);
+      const skipReason = options.force
+        ? null
+        : await this.getSkipReason(filePath, frontmatter, sourceLanguage, targetLanguage);
+      if (skipReason) {
+        return {
+          originalContent,
+          translatedContent: originalContent,
+          timestamp: new Date().toISOString(),
+          dryRun,
+          changes: [],
+          translatedFields: [],
+          memory: { hits: 0, misses: 0 },
+          glossaryViolations: [],
+          structureMismatches: [],
+          retried: false,
+          usage: Usage.empty(),
+          sessionUsage: this.translationService.getSessionUsage(),
+          sourceLanguage,
+          skipped: skipReason
+        };
+      }
       
-      // 翻訳を実行
-      const translatedContent = await this.translationService.translateContent(
-        originalContent,
-        request.targetLanguage || '日本語'
+      // 用語集を読み込み
+      const glossary = await this.loadGlossary(originalContent, options.glossaryNote);
+
+      // 翻訳を実行（構造が崩れた場合は1回だけ翻訳し直す）
+      const { output, structureMismatches, retried } = await this.translateVerified(
+        useMemory => this.translationService.translateContent(originalContent, targetLanguage, {
+          useMemory,
+          glossary,
+          interleave: options.mode === 'interleaved',
+          dryRun,
+          translateFields: options.translateFields,
+          sourceLanguage,
+          trackSource: options.mode === 'parallel',
+          control
+        }),
+        body,
+        content => matter(content).content,
+        options
       );
+      const { translatedFields, memory, usage, glossaryViolations } = output;
 
-      // 翻訳モードに応じてファイルを更新
-      await this.updateFileByMode(
-        parsedUrl.path,
+      // 再翻訳しても構造が一致しない場合はファイルを変更せずに不一致を報告する
+      if (structureMismatches.length > 0) {
+        return {
+          originalContent,
+          translatedContent: output.content,
+          timestamp: new Date().toISOString(),
+          dryRun,
+          changes: [],
+          translatedFields,
+          memory,
+          glossaryViolations,
+          structureMismatches,
+          retried,
+          usage,
+          sessionUsage: this.translationService.getSessionUsage(),
+          sourceLanguage
+        };
+      }
+
+      // 並列版では、リンク先のノートに同じ言語の並列版があればそちらへのリンクに書き換える
+      let translatedContent = output.content;
+      let links: LinkRewriteReport | undefined;
+      if (options.mode === 'parallel' && options.rewriteLinks) {
+        const languageCode = LanguageCode.fromTargetLanguage(targetLanguage);
+        const layout = options.parallelLayout || 'suffix';
+        ({ content: translatedContent, report: links } = await this.rewriteLinks(
+          translatedContent,
+          filePath,
+          languageCode,
+          layout
+        ));
+      }
+
+      // 翻訳モードに応じて変更するファイルの内容を作成
+      const changes = this.buildFileChanges(
+        filePath,
         originalContent,
-        translatedContent,
-        request.mode || 'replace'
+        { ...output, content: translatedContent },
+        options
       );
 
-      // 古いバックアップをクリーンアップ
-      await this.fileSystem.cleanupOldBackups(parsedUrl.path.split('/').slice(0, -1).join('/'));
+      // キャンセルされた場合はファイルを変更しない
+      TranslateTool.throwIfCancelled(control);
+
+      // 変更するファイルをバックアップしてからまとめて書き込む（ドライランでは書き込まない）
+      // 翻訳中に元のノートが変更されていた場合や、途中で失敗した場合はどのファイルも変更しない
+      let backupInfo: BackupInfo | undefined;
+      if (!dryRun) {
+        const transaction = this.fileSystem.beginTransaction()
+          .expect(filePath, VersionStore.hash(originalContent), originalContent);
+        changes.forEach(change => transaction.write(change.path, change.content));
+        const backups = await transaction.commit('translate');
+        backupInfo = backups.find(backup => backup.originalPath === filePath);
+
+        // 古いバックアップをクリーンアップ
+        await this.fileSystem.cleanupOldBackups();
+      }
 
       return {
         originalContent,
         translatedContent,
-        backupPath: backupInfo.backupPath,
-        timestamp: backupInfo.timestamp
+        backupId: backupInfo?.id,
+        timestamp: new Date().toISOString(),
+        dryRun,
+        changes: dryRun ? await this.previewChanges(changes) : [],
+        translatedFields,
+        memory,
+        glossaryViolations,
+        structureMismatches,
+        retried,
+        usage,
+        sessionUsage: this.translationService.getSessionUsage(),
+        sourceLanguage,
+        ...(links ? { links } : {})
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -110,65 +539,680 @@ export class TranslateTool {
   }
 
   /**
-   * 翻訳モードに応じてファイルを更新
+   * ノートの一部（セクション・ブロック・行範囲）を翻訳する
+   * 範囲の外側とFrontmatterは変更せず、翻訳メタデータも追加しない
+   * @param filePath ファイルパス
+   * @param region 範囲の指定
+   * @param options 翻訳オプション（mode は replace または append。expectedHash を指定した場合は翻訳前にも確認する）
+   * @param control キャンセルと進捗の通知（省略可）
+   * @returns 翻訳結果
+   */
+  private async translateRegion(
+    filePath: string,
+    region: NoteRegion,
+    options: TranslationOptions & Pick<TranslationRequest, 'expectedHash'>,
+    control?: TranslationControl
+  ): Promise<TranslationResult> {
+    ObsidianUrlParser.validatePath(filePath);
+
+    const mode = options.mode || 'replace';
+    if (mode !== 'replace' && mode !== 'append') {
+      throw new Error(
+        `${ErrorCode.INVALID_REGION}: Mode '${mode}' cannot be used with a section, block or line range. Use 'replace' or 'append'`
+      );
+    }
+
+    if (!(await this.fileSystem.exists(filePath))) {
+      throw new Error(`${ErrorCode.FILE_NOT_FOUND}: File '${filePath}' not found`);
+    }
+
+    const originalContent = await this.fileSystem.readFile(filePath);
+    if (options.expectedHash) {
+      await this.fileSystem.assertUnchanged(filePath, options.expectedHash, originalContent);
+    }
+    const targetLanguage = options.targetLanguage || '日本語';
+    const dryRun = options.dryRun ?? false;
+
+    const { start, end, label } = MarkdownOutline.resolve(originalContent, region);
+    const lines = originalContent.split('\n');
+    const fragment = lines.slice(start, end).join('\n');
+
+    // 範囲がすでに翻訳先言語で書かれている場合はスキップする（force指定時を除く）
+    const sourceLanguage = LanguageCode.detect(fragment);
+    if (!options.force && sourceLanguage && LanguageCode.isSame(sourceLanguage, targetLanguage)) {
+      return {
+        originalContent,
+        translatedContent: fragment,
+        timestamp: new Date().toISOString(),
+        dryRun,
+        changes: [],
+        translatedFields: [],
+        memory: { hits: 0, misses: 0 },
+        glossaryViolations: [],
+        structureMismatches: [],
+        retried: false,
+        usage: Usage.empty(),
+        sessionUsage: this.translationService.getSessionUsage(),
+        sourceLanguage,
+        skipped: `${label} is already written in ${targetLanguage} (detected: ${sourceLanguage})`,
+        region: label
+      };
+    }
+
+    const glossary = await this.loadGlossary(originalContent, options.glossaryNote);
+    const { output, structureMismatches, retried } = await this.translateVerified(
+      useMemory =>
+        this.translationService.translateFragment(fragment, targetLanguage, { useMemory, glossary, dryRun, control }),
+      fragment,
+      content => content,
+      options
+    );
+    const { memory, usage, glossaryViolations } = output;
+    const translatedContent = output.content.replace(/\n+$/, '');
+
+    const result: TranslationResult = {
+      originalContent,
+      translatedContent,
+      timestamp: new Date().toISOString(),
+      dryRun,
+      changes: [],
+      translatedFields: [],
+      memory,
+      glossaryViolations,
+      structureMismatches,
+      retried,
+      usage,
+      sessionUsage: this.translationService.getSessionUsage(),
+      sourceLanguage,
+      region: label
+    };
+    if (structureMismatches.length > 0) {
+      return result;
+    }
+
+    // 範囲を訳文に置き換える、または範囲の直後に訳文を挿入する
+    // 挿入する訳文からはブロックIDを取り除き、同じIDが重複しないようにする
+    const translatedLines = mode === 'replace'
+      ? translatedContent.split('\n')
+      : translatedContent
+          .split('\n')
+          .filter(line => !/^\s*\^[A-Za-z0-9-]+\s*$/.test(line))
+          .map(line => line.replace(/\s+\^[A-Za-z0-9-]+\s*$/, ''));
+    const after = lines.slice(end);
+    const newLines = mode === 'replace'
+      ? [...lines.slice(0, start), ...translatedLines, ...after]
+      : [...lines.slice(0, end), '', ...translatedLines, ...(after.length > 0 && after[0].trim() ? [''] : []), ...after];
+    const change: FileChange = { path: filePath, content: newLines.join('\n') };
+
+    if (dryRun) {
+      return { ...result, changes: await this.previewChanges([change]) };
+    }
+
+    TranslateTool.throwIfCancelled(control);
+    // 翻訳中にノートが変更されていた場合は書き込まない
+    const [backupInfo] = await this.fileSystem.beginTransaction()
+      .expect(filePath, VersionStore.hash(originalContent), originalContent)
+      .write(change.path, change.content)
+      .commit('translate');
+    await this.fileSystem.cleanupOldBackups();
+
+    return { ...result, backupId: backupInfo.id, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * キャンセルされている場合はエラーとする
+   * @param control キャンセルと進捗の通知
+   * @throws キャンセルされている場合は CANCELLED
+   */
+  private static throwIfCancelled(control?: TranslationControl): void {
+    if (control?.signal?.aborted) {
+      throw new Error(`${ErrorCode.CANCELLED}: Translation was cancelled`);
+    }
+  }
+
+  /**
+   * 翻訳をスキップすべきか判定する
+   * replace・append・interleaved モードの翻訳は translated.target_language、
+   * parallel モードの翻訳は translations の並列版へのリンクで判定する
+   * @param filePath ノートのパス
+   * @param frontmatter ノートのFrontmatter
+   * @param sourceLanguage 推定した原文の言語（判定できない場合null）
+   * @param targetLanguage 翻訳先言語
+   * @returns スキップする理由（翻訳する場合null）
+   */
+  private async getSkipReason(
+    filePath: string,
+    frontmatter: Record<string, any>,
+    sourceLanguage: string | null,
+    targetLanguage: string
+  ): Promise<string | null> {
+    const translatedTo = frontmatter.translated?.target_language;
+    if (typeof translatedTo === 'string' && LanguageCode.isSame(translatedTo, targetLanguage)) {
+      return `Already translated to ${targetLanguage}`;
+    }
+    const parallelPath = await this.findParallelVersion(filePath, frontmatter, targetLanguage);
+    if (parallelPath) {
+      return `Already translated to ${targetLanguage} (${parallelPath})`;
+    }
+    if (sourceLanguage && LanguageCode.isSame(sourceLanguage, targetLanguage)) {
+      return `Already written in ${targetLanguage} (detected: ${sourceLanguage})`;
+    }
+    return null;
+  }
+
+  /**
+   * 元のノートの translations から翻訳先言語の並列版を探す
+   * @param filePath 元のノートのパス
+   * @param frontmatter 元のノートのFrontmatter
+   * @param targetLanguage 翻訳先言語
+   * @returns 並列版のパス（リンクがない、またはリンク先のファイルがない場合null）
+   */
+  private async findParallelVersion(
+    filePath: string,
+    frontmatter: Record<string, any>,
+    targetLanguage: string
+  ): Promise<string | null> {
+    const translations = frontmatter.translations;
+    if (typeof translations !== 'object' || translations === null || Array.isArray(translations)) {
+      return null;
+    }
+    const link = Object.entries(translations).find(
+      ([code, value]) => typeof value === 'string' && LanguageCode.isSame(code, targetLanguage)
+    )?.[1];
+    if (typeof link !== 'string') {
+      return null;
+    }
+    return WikiLinks.resolve(TranslateTool.fromWikiLink(link), filePath, await this.fileSystem.listMarkdownFiles());
+  }
+
+  /**
+   * 翻訳を実行し、原文と訳文の構造を比較する
+   * 構造が一致しない場合は翻訳メモリを使わずに1回だけ翻訳し直す
+   * @param translate 翻訳を実行する関数（引数は翻訳メモリを使うか）
+   * @param sourceBody 原文の本文
+   * @param toBody 翻訳結果から本文を取り出す関数
+   * @param options 翻訳オプション（verifyStructure: false の場合は比較しない）
+   * @returns 翻訳結果、構造の不一致、翻訳し直したか
+   */
+  private async translateVerified(
+    translate: (useMemory: boolean) => Promise<TranslationOutput>,
+    sourceBody: string,
+    toBody: (content: string) => string,
+    options: TranslationOptions
+  ): Promise<{ output: TranslationOutput; structureMismatches: StructureMismatch[]; retried: boolean }> {
+    const check = (output: TranslationOutput) =>
+      options.verifyStructure === false ? [] : MarkdownStructure.compare(sourceBody, toBody(output.content));
+
+    let output = await translate(options.useTranslationMemory ?? true);
+    let structureMismatches = check(output);
+
+    const retried = structureMismatches.length > 0;
+    if (retried) {
+      // 破棄した翻訳のトークン利用量も含める
+      const discardedUsage = output.usage;
+      output = await translate(false);
+      Usage.add(output.usage, discardedUsage);
+      structureMismatches = check(output);
+    }
+    return { output, structureMismatches, retried };
+  }
+
+  /**
+   * 用語集ノートとノート自身のFrontmatterから用語集を読み込む
+   * ノートの glossary ブロックの用語は用語集ノートより優先される
+   * @param noteContent 翻訳対象ノートの内容
+   * @param glossaryNote 用語集ノートのパス（省略時は設定値）
+   * @returns 用語の配列
+   */
+  private async loadGlossary(noteContent: string, glossaryNote?: string): Promise<GlossaryEntry[]> {
+    const entries: GlossaryEntry[] = [];
+    const glossaryPath = glossaryNote || this.glossaryNotePath;
+
+    if (glossaryPath) {
+      ObsidianUrlParser.validatePath(glossaryPath);
+      if (!(await this.fileSystem.exists(glossaryPath))) {
+        throw new Error(`${ErrorCode.FILE_NOT_FOUND}: Glossary note '${glossaryPath}' not found`);
+      }
+      entries.push(...Glossary.parseNote(await this.fileSystem.readFile(glossaryPath)));
+    }
+
+    entries.push(...Glossary.fromFrontmatter(matter(noteContent).data.glossary));
+    return entries;
+  }
+
+  /**
+   * 翻訳モードに応じて書き込むファイルの内容を作成する
    * @param filePath ファイルパス
    * @param originalContent 元のコンテンツ
-   * @param translatedContent 翻訳されたコンテンツ
-   * @param mode 翻訳モード
+   * @param output 翻訳結果
+   * @param options 翻訳オプション
+   * @returns 書き込むファイルの内容
    */
-  private async updateFileByMode(
+  private buildFileChanges(
     filePath: string,
     originalContent: string,
-    translatedContent: string,
-    mode: 'replace' | 'append' | 'parallel'
-  ): Promise<void> {
+    output: TranslationOutput,
+    options: TranslationOptions
+  ): FileChange[] {
+    const mode = options.mode || 'replace';
+    const translatedContent = output.content;
+    const changes: FileChange[] = [];
+
     switch (mode) {
       case 'replace':
-        await this.fileSystem.writeFile(filePath, translatedContent);
+        changes.push({ path: filePath, content: translatedContent });
         break;
 
       case 'append':
-        const appendedContent = originalContent + '\\n\\n---\\n\\n# 翻訳版\\n\\n' + translatedContent;
-        await this.fileSystem.writeFile(filePath, appendedContent);
+        // 原文の本文の後に訳文の本文を追加し、Frontmatterは翻訳メタデータ付きのものを使う
+        const appended = matter(translatedContent);
+        const originalBody = matter(originalContent).content.replace(/\n+$/, '');
+        const appendedBody = `${originalBody}\n\n---\n\n# 翻訳版\n\n${appended.content}`;
+        changes.push({ path: filePath, content: matter.stringify(appendedBody, appended.data) });
         break;
 
       case 'parallel':
-        // 並列表示用の新しいファイルを作成
-        const parallelPath = filePath.replace(/\\.md$/, '.ja.md');
-        await this.fileSystem.writeFile(parallelPath, translatedContent);
+        // 言語ごとの並列版ファイルを作成し、元のノートと相互にリンクする
+        const languageCode = LanguageCode.fromTargetLanguage(options.targetLanguage || '日本語');
+        const parallelPath = TranslateTool.getParallelPath(
+          filePath,
+          languageCode,
+          options.parallelLayout || 'suffix'
+        );
+        changes.push(
+          { path: parallelPath, content: this.linkParallelVersion(translatedContent, filePath) },
+          { path: filePath, content: this.linkSourceNote(originalContent, parallelPath, languageCode) }
+        );
+        break;
+
+      case 'interleaved':
+        // 原文の各ブロックの直後に訳文を配置し、Frontmatterは翻訳メタデータ付きのものを使う
+        const { data: translatedFrontmatter } = matter(translatedContent);
+        const interleavedBody = Interleaver.build(
+          output.segments,
+          options.interleavedStyle || 'plain',
+          options.targetLanguage || '日本語'
+        );
+        changes.push({ path: filePath, content: matter.stringify(interleavedBody, translatedFrontmatter) });
         break;
 
       default:
         throw new Error(`${ErrorCode.TRANSLATION_FAILED}: Invalid mode '${mode}'`);
     }
+
+    return changes;
+  }
+
+  /**
+   * 並列版ファイルのパスを求める
+   * @param filePath 元のノートのパス
+   * @param languageCode 言語コード
+   * @param layout suffix: note.de.md / folder: de/path/to/note.md
+   * @returns 並列版ファイルのパス
+   */
+  static getParallelPath(filePath: string, languageCode: string, layout: ParallelLayout): string {
+    if (layout === 'folder') {
+      return `${languageCode}/${filePath}`;
+    }
+    return filePath.replace(/\.md$/, '') + `.${languageCode}.md`;
+  }
+
+  /**
+   * 並列版の本文のWikiLink・埋め込みを、同じ言語の並列版があればそちらへのリンクに書き換える
+   * 表示名のないリンクには並列版のタイトルを表示名として付ける
+   * @param translatedContent 翻訳されたコンテンツ
+   * @param sourcePath 元のノートのパス
+   * @param languageCode 言語コード
+   * @param layout 並列版の配置
+   * @returns 書き換えたコンテンツと、書き換えたリンク数・並列版がないノートの一覧
+   */
+  private async rewriteLinks(
+    translatedContent: string,
+    sourcePath: string,
+    languageCode: string,
+    layout: ParallelLayout
+  ): Promise<{ content: string; report: LinkRewriteReport }> {
+    const { data: frontmatter, content: body } = matter(translatedContent);
+    const files = await this.fileSystem.listMarkdownFiles();
+
+    // リンク先のノートごとに並列版を探す（元のノート自身へのリンクは作成する並列版を指す）
+    const siblings = new Map<string, { path: string; title: string | null } | null>();
+    for (const link of WikiLinks.parse(body)) {
+      const notePath = WikiLinks.resolve(link.target, sourcePath, files);
+      if (!notePath || siblings.has(notePath)) {
+        continue;
+      }
+      const siblingPath = TranslateTool.getParallelPath(notePath, languageCode, layout);
+      if (notePath === sourcePath) {
+        siblings.set(notePath, { path: siblingPath, title: null });
+      } else if (files.includes(siblingPath)) {
+        siblings.set(notePath, { path: siblingPath, title: await this.getNoteTitle(siblingPath) });
+      } else {
+        siblings.set(notePath, null);
+      }
+    }
+
+    let rewritten = 0;
+    const untranslated = new Set<string>();
+    const rewrittenBody = WikiLinks.replace(body, link => {
+      const notePath = WikiLinks.resolve(link.target, sourcePath, files);
+      const sibling = notePath ? siblings.get(notePath) : undefined;
+      if (!notePath || sibling === undefined) {
+        return null;
+      }
+      if (sibling === null) {
+        untranslated.add(notePath);
+        return null;
+      }
+
+      rewritten++;
+      return WikiLinks.format({
+        ...link,
+        target: sibling.path.replace(/\.md$/, ''),
+        alias: link.alias ?? (link.embed ? undefined : sibling.title ?? link.target.trim())
+      });
+    });
+
+    return {
+      content: matter.stringify(rewrittenBody, frontmatter),
+      report: { rewritten, untranslated: [...untranslated].sort() }
+    };
+  }
+
+  /**
+   * ノートのタイトル（Frontmatterの title、なければ最初のH1見出し）を取得する
+   * @param filePath ノートのパス
+   * @returns タイトル（見つからない場合null）
+   */
+  private async getNoteTitle(filePath: string): Promise<string | null> {
+    const { data: frontmatter, content } = matter(await this.fileSystem.readFile(filePath));
+    if (typeof frontmatter.title === 'string' && frontmatter.title.trim()) {
+      return frontmatter.title.trim();
+    }
+    return content.match(/^#[ \t]+(.+?)[ \t]*$/m)?.[1] ?? null;
+  }
+
+  /**
+   * 並列版の翻訳に元のノートへのリンクを設定する
+   * @param translatedContent 翻訳されたコンテンツ
+   * @param sourcePath 元のノートのパス
+   * @returns translation_of を設定したコンテンツ
+   */
+  private linkParallelVersion(translatedContent: string, sourcePath: string): string {
+    const { data: frontmatter, content } = matter(translatedContent);
+    // 元のノートから引き継いだ他言語へのリンクは持たせない
+    const { translations, ...rest } = frontmatter;
+    return matter.stringify(content, {
+      ...rest,
+      translation_of: TranslateTool.toWikiLink(sourcePath)
+    });
+  }
+
+  /**
+   * 元のノートに並列版へのリンクを追加する
+   * @param originalContent 元のコンテンツ
+   * @param parallelPath 並列版ファイルのパス
+   * @param languageCode 言語コード
+   * @returns translations を更新したコンテンツ
+   */
+  private linkSourceNote(originalContent: string, parallelPath: string, languageCode: string): string {
+    const { data: frontmatter, content } = matter(originalContent);
+    const translations = typeof frontmatter.translations === 'object' && !Array.isArray(frontmatter.translations)
+      ? frontmatter.translations
+      : {};
+    return matter.stringify(content, {
+      ...frontmatter,
+      translations: {
+        ...translations,
+        [languageCode]: TranslateTool.toWikiLink(parallelPath)
+      }
+    });
+  }
+
+  /**
+   * Vault内のパスをFrontmatter用のWikiLinkに変換する
+   * @param filePath ファイルパス
+   * @returns [[path/to/note]] 形式のリンク
+   */
+  private static toWikiLink(filePath: string): string {
+    return `[[${filePath.replace(/\.md$/, '')}]]`;
+  }
+
+  /**
+   * Frontmatterに記録したWikiLinkからリンク先を取り出す
+   * @param link [[path/to/note]] または [[path/to/note|表示名]] 形式のリンク
+   * @returns リンク先
+   */
+  private static fromWikiLink(link: string): string {
+    return link.replace(/^\[\[|\]\]$/g, '').split('|')[0];
+  }
+
+  /**
+   * 変更内容を現在のファイルと比較したプレビューを作成
+   * @param changes 書き込むはずだったファイルの内容
+   * @returns 変更のプレビュー
+   */
+  private async previewChanges(changes: FileChange[]): Promise<FileChangePreview[]> {
+    const previews: FileChangePreview[] = [];
+    for (const change of changes) {
+      const current = (await this.fileSystem.exists(change.path))
+        ? await this.fileSystem.readFile(change.path)
+        : null;
+      previews.push(createNotePreview(change.path, current, change.content));
+    }
+    return previews;
   }
 
   /**
    * バッチ翻訳を実行
-   * @param urls 翻訳対象のURL配列
-   * @param targetLanguage 翻訳先言語
-   * @returns 翻訳結果の配列
+   * フォルダ・タグ・検索クエリで選択したノートを、同時実行数を制限して翻訳する
+   * @param request バッチ翻訳リクエスト
+   * @param control キャンセルと進捗の通知（進捗は翻訳を終えたノートの数、省略可）
+   * @returns ファイルごとの成功・失敗・スキップのレポート
    */
-  async executeBatch(
-    urls: string[],
-    targetLanguage: string = '日本語'
-  ): Promise<TranslationResult[]> {
-    const results: TranslationResult[] = [];
-    
-    for (const url of urls) {
+  async executeBatch(request: BatchTranslationRequest, control?: TranslationControl): Promise<BatchTranslationReport> {
+    const targetLanguage = request.targetLanguage || '日本語';
+    const concurrency = Math.min(Math.max(request.concurrency || 3, 1), 10);
+    const paths = await NoteSelector.select(this.fileSystem, request);
+    let completed = 0;
+
+    const results = await mapWithConcurrency(paths, concurrency, async (path): Promise<BatchTranslationItem> => {
       try {
-        const result = await this.execute({
-          url,
-          targetLanguage,
-          mode: 'replace'
-        });
-        results.push(result);
-      } catch (error) {
-        console.error(`Failed to translate ${url}:`, error);
-        // エラーが発生した場合はスキップして続行
+        return await this.translateBatchItem(path, targetLanguage, request, control);
+      } finally {
+        control?.onProgress?.({ completed: ++completed, total: paths.length, message: path });
       }
+    });
+
+    const items = results.map((result, index): BatchTranslationItem =>
+      result.status === 'fulfilled'
+        ? result.value
+        : {
+            path: paths[index],
+            status: 'failed',
+            reason: result.reason instanceof Error ? result.reason.message : String(result.reason)
+          }
+    );
+
+    return {
+      targetLanguage,
+      items,
+      succeeded: items.filter(item => item.status === 'success').length,
+      failed: items.filter(item => item.status === 'failed').length,
+      skipped: items.filter(item => item.status === 'skipped').length,
+      usage: items.reduce((total, item) => (item.usage ? Usage.add(total, item.usage) : total), Usage.empty()),
+      sessionUsage: this.translationService.getSessionUsage()
+    };
+  }
+
+  /**
+   * バッチ翻訳の1ノートを翻訳する
+   * @param path ノートのパス
+   * @param targetLanguage 翻訳先言語
+   * @param request バッチ翻訳リクエスト
+   * @param control キャンセルと進捗の通知（ノートごとの進捗は通知しない）
+   * @returns ノートの翻訳結果
+   */
+  private async translateBatchItem(
+    path: string,
+    targetLanguage: string,
+    request: BatchTranslationRequest,
+    control?: TranslationControl
+  ): Promise<BatchTranslationItem> {
+    // キャンセル後は残りのノートを翻訳しない
+    if (control?.signal?.aborted) {
+      return { path, status: 'skipped', reason: 'Cancelled' };
     }
-    
-    return results;
+
+    // 他のノートの並列版はスキップ（翻訳済み・同じ言語のノートは translateFile で判定する）
+    const { data: frontmatter } = matter(await this.fileSystem.readFile(path));
+    if (frontmatter.translation_of) {
+      return { path, status: 'skipped', reason: `Parallel version of ${frontmatter.translation_of}` };
+    }
+
+    const result = await this.translateFile(path, { ...request, targetLanguage }, { signal: control?.signal });
+    if (result.skipped) {
+      return { path, status: 'skipped', reason: result.skipped };
+    }
+    if (result.structureMismatches.length > 0) {
+      return {
+        path,
+        status: 'failed',
+        reason: `Structure mismatch after retry: ${result.structureMismatches.map(m => m.element).join(', ')}`,
+        structureMismatches: result.structureMismatches,
+        usage: result.usage
+      };
+    }
+    return { path, status: 'success', backupId: result.backupId, usage: result.usage };
+  }
+
+  /**
+   * 翻訳をバックグラウンドのジョブとして登録する
+   * @param job ジョブの種類とリクエスト
+   * @returns 登録されたジョブ
+   */
+  async submitJob(
+    job: { type: 'note'; request: TranslationRequest } | { type: 'batch'; request: BatchTranslationRequest }
+  ): Promise<TranslationJob> {
+    if (job.type === 'note') {
+      // URLとVaultは登録時に検証し、誤ったリクエストをジョブにしない
+      const parsedUrl = ObsidianUrlParser.parse(job.request.url);
+      ObsidianUrlParser.validateVault(parsedUrl.vault, this.configuredVault);
+    }
+    return await this.jobs.submit(job);
+  }
+
+  /**
+   * 保存されたジョブを読み込み、サーバーの停止で中断されたジョブを再開する
+   * @returns 再開したジョブと失敗としたジョブのID
+   */
+  async resumeJobs(): Promise<{ resumed: string[]; failed: string[] }> {
+    return await this.jobs.restore();
+  }
+
+  /**
+   * 翻訳ジョブを取得する
+   * @param jobId ジョブID
+   * @returns ジョブ
+   */
+  getJob(jobId: string): TranslationJob {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * 翻訳ジョブを新しい順に一覧する
+   * @param status 絞り込む状態（省略時はすべて）
+   * @returns ジョブの配列
+   */
+  listJobs(status?: TranslationJobStatus): TranslationJob[] {
+    return this.jobs.list(status);
+  }
+
+  /**
+   * 翻訳ジョブをキャンセルする
+   * @param jobId ジョブID
+   * @returns キャンセルを要求した後のジョブ
+   */
+  async cancelJob(jobId: string): Promise<TranslationJob> {
+    return await this.jobs.cancel(jobId);
+  }
+
+  /**
+   * 元のノートが翻訳後に変更された並列版の翻訳を一覧する
+   * 翻訳時に記録した原文のハッシュ（translated.source_hash）と現在の元のノートを比較する
+   * @param folder 対象のフォルダ（省略時はVault全体）
+   * @returns 古くなった翻訳と、ハッシュが記録されていない翻訳の一覧
+   */
+  async listStaleTranslations(folder: string = ''): Promise<StaleTranslationReport> {
+    if (folder) {
+      ObsidianUrlParser.validatePath(folder);
+    }
+
+    const files = await this.fileSystem.listMarkdownFiles();
+    const candidates = (folder ? await this.fileSystem.listMarkdownFiles(folder) : files).sort();
+
+    const report: StaleTranslationReport = { checked: 0, stale: [], untracked: [] };
+    for (const path of candidates) {
+      const { data: frontmatter } = matter(await this.fileSystem.readFile(path));
+      if (typeof frontmatter.translation_of !== 'string') {
+        continue;
+      }
+      report.checked++;
+
+      const translated = frontmatter.translated ?? {};
+      if (typeof translated.source_hash !== 'string') {
+        report.untracked.push(path);
+        continue;
+      }
+
+      const stale = await this.checkStaleness(path, frontmatter.translation_of, translated, files);
+      if (stale) {
+        report.stale.push(stale);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * 並列版の翻訳が元のノートの変更後に古くなっているか判定する
+   * @param path 並列版のパス
+   * @param translationOf 元のノートへのリンク（translation_of）
+   * @param translated 並列版の翻訳メタデータ
+   * @param files Vault内のMarkdownファイルの一覧
+   * @returns 古くなっている場合はその内容（最新の場合null）
+   */
+  private async checkStaleness(
+    path: string,
+    translationOf: string,
+    translated: Record<string, any>,
+    files: string[]
+  ): Promise<StaleTranslation | null> {
+    const target = translationOf.replace(/^\[\[|\]\]$/g, '').split('|')[0];
+    const sourcePath = WikiLinks.resolve(target, path, files);
+    const base = {
+      path,
+      sourcePath: sourcePath ?? `${target}.md`,
+      targetLanguage: String(translated.target_language ?? ''),
+      ...(translated.date ? { translatedAt: String(translated.date) } : {})
+    };
+
+    if (!sourcePath) {
+      return { ...base, sourceMissing: true, sections: { changed: [], added: [], removed: [] } };
+    }
+
+    const { content: sourceBody } = matter(await this.fileSystem.readFile(sourcePath));
+    if (SourceFingerprint.hash(sourceBody) === translated.source_hash) {
+      return null;
+    }
+
+    const recordedSections = typeof translated.source_sections === 'object' && translated.source_sections
+      ? translated.source_sections
+      : {};
+    return {
+      ...base,
+      sourceMissing: false,
+      sections: SourceFingerprint.compareSections(recordedSections, SourceFingerprint.sections(sourceBody))
+    };
   }
-}
\ No newline at end of file
+}
@@ -2,19 +2,145 @@ export interface ObsidianUrl {
   vault: string;
   file: string;
   path: string;
+  subpath?: string;
 }
 
-export interface TranslationRequest {
-  url: string;
+export type TranslationMode = 'replace' | 'append' | 'parallel' | 'interleaved';
+
+export type InterleavedStyle = 'plain' | 'callout' | 'details';
+
+export type ParallelLayout = 'suffix' | 'folder';
+
+export interface TranslationOptions {
   targetLanguage?: string;
-  mode?: 'replace' | 'append' | 'parallel';
+  mode?: TranslationMode;
+  parallelLayout?: ParallelLayout;
+  interleavedStyle?: InterleavedStyle;
+  translateFields?: string[];
+  useTranslationMemory?: boolean;
+  glossaryNote?: string;
+  verifyStructure?: boolean;
+  rewriteLinks?: boolean;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+export interface TranslationRequest extends TranslationOptions, NoteRegion {
+  url: string;
+  // 読み込んだ時点のノートの内容のハッシュ（一致しない場合は翻訳しない）
+  expectedHash?: string;
+}
+
+export interface NoteRegion {
+  section?: string;
+  blockId?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+// ノートの編集・読み取りで指定できる範囲（タスクの行も指定できる）
+export interface NoteTarget extends NoteRegion {
+  task?: string;
+}
+
+export type NoteUpdateMode = 'replace' | 'append' | 'prepend';
+
+export interface ResolvedRegion {
+  start: number;
+  end: number;
+  label: string;
+}
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  line: number;
+}
+
+// フォルダ・タグ・検索クエリによるノートの選択
+export interface NoteSelection {
+  folder?: string;
+  tags?: string[];
+  query?: string;
+  maxNotes?: number;
+}
+
+export interface BatchTranslationRequest extends TranslationOptions, NoteSelection {
+  concurrency?: number;
+}
+
+export interface BatchTranslationItem {
+  path: string;
+  status: 'success' | 'failed' | 'skipped';
+  reason?: string;
+  backupId?: string;
+  structureMismatches?: StructureMismatch[];
+  usage?: UsageStats;
+}
+
+export interface BatchTranslationReport {
+  targetLanguage: string;
+  items: BatchTranslationItem[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  usage: UsageStats;
+  sessionUsage: UsageStats;
 }
 
 export interface TranslationResult {
   originalContent: string;
   translatedContent: string;
-  backupPath: string;
+  backupId?: string;
   timestamp: string;
+  dryRun: boolean;
+  changes: FileChangePreview[];
+  translatedFields: string[];
+  memory: TranslationMemoryStats;
+  glossaryViolations: GlossaryViolation[];
+  structureMismatches: StructureMismatch[];
+  retried: boolean;
+  usage: UsageStats;
+  sessionUsage: UsageStats;
+  sourceLanguage: string | null;
+  skipped?: string;
+  region?: string;
+  links?: LinkRewriteReport;
+}
+
+export interface TranslationOutput {
+  content: string;
+  segments: TranslatedSegment[];
+  translatedFields: string[];
+  memory: TranslationMemoryStats;
+  usage: UsageStats;
+  glossaryViolations: GlossaryViolation[];
+}
+
+export interface TranslatedSegment {
+  source: MarkdownBlock;
+  translation: string;
+}
+
+export interface TranslateContentOptions {
+  useMemory?: boolean;
+  glossary?: GlossaryEntry[];
+  interleave?: boolean;
+  dryRun?: boolean;
+  translateFields?: string[];
+  sourceLanguage?: string | null;
+  trackSource?: boolean;
+  control?: TranslationControl;
+}
+
+export interface TranslationMemoryStats {
+  hits: number;
+  misses: number;
+}
+
+export interface TranslationMemoryEntry {
+  translation: string;
+  updated: string;
 }
 
 export interface NoteMetadata {
@@ -25,11 +151,93 @@ export interface NoteMetadata {
   created: Date;
 }
 
+export interface NoteContent {
+  content: string;
+  frontmatter: any;
+  // ノート全体（Frontmatterを含む）の内容のSHA-256ハッシュ
+  hash: string;
+  modified: Date;
+  // 範囲を指定して読み取った場合の範囲（content はその範囲の内容）
+  region?: string;
+}
+
+export type VersionOperation = 'external' | 'create' | 'update' | 'translate' | 'restore' | 'move' | 'delete';
+
+// Obsidianのプロパティの型（list は複数テキスト、tags・aliases を含む）
+export type PropertyType = 'text' | 'list' | 'number' | 'checkbox' | 'date' | 'datetime';
+
+export interface PropertyOperation {
+  // set: 値を設定 / unset: 削除 / append: リストに追加 / merge: オブジェクトに再帰的に統合
+  op: 'set' | 'unset' | 'append' | 'merge';
+  key: string;
+  value?: unknown;
+  // 値の型（省略時は .obsidian/types.json、なければ現在の値から判定する）
+  type?: PropertyType;
+}
+
+export interface PropertyUpdateRequest extends NoteSelection {
+  operations: PropertyOperation[];
+  // 対象のノート（paths、または folder・tags・query による選択）
+  paths?: string[];
+  dryRun?: boolean;
+}
+
+export interface PropertyUpdateItem {
+  path: string;
+  status: 'updated' | 'unchanged' | 'failed';
+  // 変更したプロパティのキー
+  changed: string[];
+  reason?: string;
+  preview?: FileChangePreview;
+}
+
+export interface PropertyUpdateReport {
+  items: PropertyUpdateItem[];
+  updated: number;
+  unchanged: number;
+  failed: number;
+  dryRun: boolean;
+}
+
+export interface NoteMoveResult {
+  path: string;
+  newPath: string;
+  // リンクを書き換えたノート（移動したノート自身は含まない）
+  updatedNotes: string[];
+  rewrittenLinks: number;
+}
+
+export interface NoteDeleteResult {
+  path: string;
+  trashPath: string;
+  // 削除したノートへのリンクが残っているノート
+  backlinks: string[];
+}
+
 export interface BackupInfo {
+  id: string;
   originalPath: string;
-  backupPath: string;
+  hash: string;
+  operation: VersionOperation;
   timestamp: string;
   size: number;
+  storedSize: number;
+}
+
+export interface BackupIndex {
+  version: number;
+  migrated: boolean;
+  backups: BackupInfo[];
+}
+
+export interface BackupRetention {
+  maxAgeDays: number;
+  maxVersionsPerNote: number;
+  maxTotalBytes: number;
+}
+
+export interface NoteVersion extends BackupInfo {
+  current: boolean;
 }
 
 export enum ErrorCode {
@@ -37,9 +245,22 @@ export enum ErrorCode {
   FILE_NOT_FOUND = "FILE_NOT_FOUND",
   VAULT_MISMATCH = "VAULT_MISMATCH",
   TRANSLATION_FAILED = "TRANSLATION_FAILED",
+  TRANSLATION_TRUNCATED = "TRANSLATION_TRUNCATED",
+  PLACEHOLDER_MISMATCH = "PLACEHOLDER_MISMATCH",
   BACKUP_FAILED = "BACKUP_FAILED",
   PERMISSION_DENIED = "PERMISSION_DENIED",
-  INVALID_PATH = "INVALID_PATH"
+  INVALID_PATH = "INVALID_PATH",
+  INVALID_CONFIG = "INVALID_CONFIG",
+  UNSUPPORTED_LANGUAGE = "UNSUPPORTED_LANGUAGE",
+  INVALID_REGION = "INVALID_REGION",
+  PROVIDER_UNAVAILABLE = "PROVIDER_UNAVAILABLE",
+  JOB_NOT_FOUND = "JOB_NOT_FOUND",
+  BACKUP_NOT_FOUND = "BACKUP_NOT_FOUND",
+  CANCELLED = "CANCELLED",
+  ROLLBACK_FAILED = "ROLLBACK_FAILED",
+  CONFLICT = "CONFLICT",
+  FILE_EXISTS = "FILE_EXISTS",
+  INVALID_PROPERTY = "INVALID_PROPERTY"
 }
 
 export interface ErrorResponse {
@@ -55,4 +276,183 @@ export interface SearchResult {
   title: string;
   excerpt: string;
   matches: number;
-}
\ No newline at end of file
+}
+
+export interface MarkdownBlock {
+  type: 'heading' | 'paragraph' | 'listItem' | 'code' | 'table';
+  text: string;
+  // 次のブロックまでの改行（原文の空行を保つ）
+  separator: string;
+}
+
+export interface MarkdownChunk {
+  text: string;
+  // 次のチャンクまでの改行（原文の空行を保つ）
+  separator: string;
+}
+
+export type FenceLine = 'open' | 'code' | 'close' | 'text';
+
+export interface ProtectedContent {
+  content: string;
+  placeholders: Map<string, string>;
+}
+
+export type TranslationProviderType = 'anthropic' | 'openai-compatible' | 'pseudo';
+
+export interface TranslationProviderConfig {
+  provider: TranslationProviderType;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  maxRetries?: number;
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  text: string;
+  targetLanguage: string;
+  maxTokens: number;
+}
+
+export interface ProviderResponse {
+  text: string;
+  truncated: boolean;
+  usage: TokenUsage;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageStats extends TokenUsage {
+  requests: number;
+}
+
+export interface TranslationProvider {
+  readonly name: TranslationProviderType;
+  readonly model: string;
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+
+export interface GlossaryEntry {
+  source: string;
+  target?: string;
+  language?: string;
+  doNotTranslate: boolean;
+}
+
+export interface GlossaryViolation {
+  source: string;
+  expected: string;
+  doNotTranslate: boolean;
+}
+
+export interface SectionChanges {
+  changed: string[];
+  added: string[];
+  removed: string[];
+}
+
+export interface StaleTranslation {
+  path: string;
+  sourcePath: string;
+  targetLanguage: string;
+  translatedAt?: string;
+  sourceMissing: boolean;
+  sections: SectionChanges;
+}
+
+export interface StaleTranslationReport {
+  checked: number;
+  stale: StaleTranslation[];
+  untracked: string[];
+}
+
+export interface WikiLink {
+  raw: string;
+  embed: boolean;
+  target: string;
+  subpath: string;
+  alias?: string;
+  aliasSeparator: string;
+}
+
+export interface MarkdownLink {
+  raw: string;
+  embed: boolean;
+  text: string;
+  // リンク先（<...> で囲まれている場合はそのまま）
+  href: string;
+  // タイトル（前の空白を含む。ない場合は空文字）
+  title: string;
+}
+
+export interface LinkRewriteReport {
+  rewritten: number;
+  untranslated: string[];
+}
+
+export interface MarkdownStructureSummary {
+  headings: number[];
+  listItems: number;
+  checkboxes: boolean[];
+  tables: Array<{ rows: number; columns: number }>;
+  codeBlocks: number;
+  links: number;
+  embeds: number;
+}
+
+export interface StructureMismatch {
+  element: 'headings' | 'listItems' | 'checkboxes' | 'tables' | 'codeBlocks' | 'links' | 'embeds';
+  expected: string;
+  actual: string;
+}
+
+export interface FileChange {
+  path: string;
+  content: string;
+}
+
+export interface FileChangePreview extends FileChange {
+  exists: boolean;
+  frontmatterDiff: string;
+  bodyDiff: string;
+}
+
+export interface TranslationProgress {
+  completed: number;
+  total: number;
+  message?: string;
+}
+
+export interface TranslationControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: TranslationProgress) => void;
+}
+
+export type TranslationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface TranslationJobBase {
+  id: string;
+  status: TranslationJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  attempts: number;
+  progress: TranslationProgress;
+  error?: string;
+}
+
+export type TranslationJob = TranslationJobBase & (
+  | { type: 'note'; request: TranslationRequest; result?: TranslationResult }
+  | { type: 'batch'; request: BatchTranslationRequest; result?: BatchTranslationReport }
+);
+
+export interface BackupRestoreResult {
+  restoredPath: string;
+  restoredFrom: BackupInfo;
+  backupOfCurrent?: BackupInfo;
+}
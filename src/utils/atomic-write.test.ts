@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+
+describe('writeFileAtomic', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'atomic-write-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('replaces the file, keeps its permissions and leaves no temporary file', async () => {
+    const filePath = path.join(directory, 'Note.md');
+    await fs.writeFile(filePath, 'old');
+    await fs.chmod(filePath, 0o600);
+
+    await writeFileAtomic(filePath, 'new');
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('new');
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+    expect(await fs.readdir(directory)).toEqual(['Note.md']);
+  });
+
+  it('creates missing folders', async () => {
+    await writeFileAtomic(path.join(directory, 'a', 'b', 'Note.md'), Buffer.from('data'));
+
+    expect(await fs.readFile(path.join(directory, 'a', 'b', 'Note.md'), 'utf-8')).toBe('data');
+  });
+
+  it('removes the temporary file when the file cannot be replaced', async () => {
+    // フォルダはファイルで置き換えられない
+    await fs.mkdir(path.join(directory, 'Folder.md'));
+
+    await expect(writeFileAtomic(path.join(directory, 'Folder.md'), 'data')).rejects.toThrow();
+
+    expect(await fs.readdir(directory)).toEqual(['Folder.md']);
+  });
+});
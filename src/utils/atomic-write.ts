@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import { dirname, basename, join } from 'path';
+
+/**
+ * ファイルを原子的に書き込む
+ * 同じフォルダの一時ファイルに書き込んでディスクに同期してから置き換えるため、
+ * 書き込み途中で停止しても元のファイルか新しいファイルのどちらかが残る
+ * （一時ファイルはObsidianに表示されないよう隠しファイルにする）
+ * @param absolutePath 書き込むファイルの絶対パス
+ * @param data ファイル内容
+ */
+export async function writeFileAtomic(absolutePath: string, data: string | Buffer): Promise<void> {
+  const directory = dirname(absolutePath);
+  await fs.mkdir(directory, { recursive: true });
+
+  // 既存のファイルの権限を引き継ぐ
+  const mode = await fs.stat(absolutePath).then(stat => stat.mode & 0o777, () => undefined);
+  const temporaryPath = join(
+    directory,
+    `.${basename(absolutePath)}.tmp-${process.pid}-${randomBytes(4).toString('hex')}`
+  );
+
+  try {
+    const handle = await fs.open(temporaryPath, 'w');
+    try {
+      await handle.writeFile(data, typeof data === 'string' ? 'utf-8' : undefined);
+      if (mode !== undefined) {
+        await handle.chmod(mode);
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(temporaryPath, absolutePath);
+  } catch (error) {
+    await fs.rm(temporaryPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
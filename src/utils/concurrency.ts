@@ -0,0 +1,31 @@
+/**
+ * 同時実行数を制限して配列の各要素を処理する
+ * 失敗した要素があっても残りの処理を続け、結果は入力と同じ順序で返す
+ * @param items 処理対象の配列
+ * @param limit 同時実行数の上限
+ * @param worker 各要素の処理
+ * @returns 入力と同じ順序の処理結果
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+  await Promise.all(workers);
+  return results;
+}
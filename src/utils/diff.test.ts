@@ -0,0 +1,75 @@
+import { createConflictDiff, createNotePreview, createUnifiedDiff } from './diff.js';
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'a/x', 'b/x')).toBe('');
+  });
+
+  it('shows changed lines with their context', () => {
+    const diff = createUnifiedDiff('one\ntwo\nthree\n', 'one\n2\nthree\n', 'a/note.md', 'b/note.md');
+
+    expect(diff).toBe(
+      ['--- a/note.md', '+++ b/note.md', '@@ -1,3 +1,3 @@', ' one', '-two', '+2', ' three', ''].join('\n')
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[17] = 'changed 18';
+
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'a', 'b', 1);
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,3 +1,3 @@', '@@ -17,3 +17,3 @@']);
+  });
+
+  it('counts a new file from line zero', () => {
+    expect(createUnifiedDiff('', 'new\n', '/dev/null', 'b/new.md')).toBe(
+      ['--- /dev/null', '+++ b/new.md', '@@ -0,0 +1,1 @@', '+new', ''].join('\n')
+    );
+  });
+});
+
+describe('createNotePreview', () => {
+  it('shows frontmatter and body changes separately', () => {
+    const preview = createNotePreview(
+      'note.md',
+      '---\ntitle: Note\n---\nHello\n',
+      '---\ntitle: Note\nstatus: done\n---\nHello\n'
+    );
+
+    expect(preview.exists).toBe(true);
+    expect(preview.frontmatterDiff).toContain('+status: done');
+    expect(preview.bodyDiff).toBe('');
+  });
+
+  it('compares a new note with /dev/null', () => {
+    const preview = createNotePreview('new.md', null, 'Body\n');
+
+    expect(preview.exists).toBe(false);
+    expect(preview.bodyDiff).toBe(['--- /dev/null', '+++ b/new.md', '@@ -0,0 +1,1 @@', '+Body', ''].join('\n'));
+  });
+});
+
+describe('createConflictDiff', () => {
+  it('shows the changes from the read version to the current and the proposed content', () => {
+    const diff = createConflictDiff('note.md', 'one\ntwo\n', 'one\nTWO\n', 'one\ntwo\nthree\n');
+
+    expect(diff).toContain('base → current');
+    expect(diff).toContain('-two\n+TWO');
+    expect(diff).toContain('base → proposed');
+    expect(diff).toContain('+three');
+  });
+
+  it('reports a deleted note', () => {
+    expect(createConflictDiff('note.md', 'one\n', null, null)).toContain('(the note was deleted)');
+  });
+
+  it('compares the current and the proposed content when the read version is unknown', () => {
+    const diff = createConflictDiff('note.md', null, 'current\n', 'proposed\n');
+
+    expect(diff).toContain('current → proposed');
+    expect(diff).toContain('--- current/note.md\n+++ proposed/note.md');
+  });
+});
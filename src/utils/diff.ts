@@ -0,0 +1,249 @@
+import matter from 'gray-matter';
+import { FileChangePreview } from '../types/index.js';
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+// これを超える編集距離では最短の差分を求めず、全行の置き換えとして扱う
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * 2つの行配列の差分をMyersのアルゴリズムで計算する
+ * @param a 変更前の行
+ * @param b 変更後の行
+ * @returns 編集操作の配列
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // 共通の先頭・末尾は差分計算から除外する
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head: DiffOp[] = a.slice(0, prefix).map(line => ({ type: 'equal', line }));
+  const tail: DiffOp[] = a.slice(a.length - suffix).map(line => ({ type: 'equal', line }));
+  const middle = diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Myersのアルゴリズムで最短の編集操作を求める
+ * @param a 変更前の行
+ * @param b 変更後の行
+ * @returns 編集操作の配列
+ */
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+  const v = new Int32Array(2 * maxD + 3);
+  // trace[d] には d回目の探索開始時点の v のうち、k = -d-1 .. d+1 の範囲を保存する
+  const trace: Int32Array[] = [];
+  let found = n + m === 0;
+
+  for (let d = 0; d <= maxD && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((line): DiffOp => ({ type: 'delete', line })),
+      ...b.map((line): DiffOp => ({ type: 'insert', line })),
+    ];
+  }
+
+  // 経路を逆にたどって編集操作を組み立てる
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd(k - 1) < vd(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : vd(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (d === 0) {
+      break;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'insert', line: b[--y] });
+    } else {
+      ops.push({ type: 'delete', line: a[--x] });
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * unified diff形式の差分を作成する
+ * @param oldText 変更前のテキスト
+ * @param newText 変更後のテキスト
+ * @param oldLabel 変更前のラベル
+ * @param newLabel 変更後のラベル
+ * @param context 前後に表示する行数
+ * @returns unified diff（差分がない場合は空文字）
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const toLines = (text: string) => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+  const ops = diffLines(toLines(oldText), toLines(newText));
+
+  // 変更箇所の前後context行をまとめてハンクにする
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === 'equal') {
+      index++;
+      continue;
+    }
+
+    let start = Math.max(0, index - context);
+    let end = index;
+    while (end < ops.length) {
+      if (ops[end].type !== 'equal') {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < ops.length && ops[next].type === 'equal') {
+        next++;
+      }
+      if (next === ops.length || next - end > context * 2) {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+      end = next;
+    }
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== 'insert') oldStart++;
+      if (op.type !== 'delete') newStart++;
+    }
+
+    const hunkOps = ops.slice(start, end);
+    const oldCount = hunkOps.filter(op => op.type !== 'insert').length;
+    const newCount = hunkOps.filter(op => op.type !== 'delete').length;
+    const prefix = { equal: ' ', delete: '-', insert: '+' };
+
+    hunks.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@\n` +
+      hunkOps.map(op => prefix[op.type] + op.line).join('\n')
+    );
+    index = end;
+  }
+
+  return `--- ${oldLabel}\n+++ ${newLabel}\n${hunks.join('\n')}\n`;
+}
+
+/**
+ * ノートの変更内容をFrontmatterと本文に分けて差分表示する
+ * @param path ノートのパス
+ * @param currentContent 現在の内容（ファイルが存在しない場合null）
+ * @param newContent 変更後の内容
+ * @returns 変更のプレビュー
+ */
+export function createNotePreview(
+  path: string,
+  currentContent: string | null,
+  newContent: string
+): FileChangePreview {
+  // キャッシュされた結果には matter（生のFrontmatter）が含まれないため、オプションを渡してキャッシュを回避する
+  const current = matter(currentContent ?? '', {});
+  const next = matter(newContent, {});
+  const oldLabel = currentContent === null ? '/dev/null' : `a/${path}`;
+
+  return {
+    path,
+    exists: currentContent !== null,
+    content: newContent,
+    frontmatterDiff: createUnifiedDiff(
+      (current.matter ?? '').replace(/^\n/, ''),
+      (next.matter ?? '').replace(/^\n/, ''),
+      `${oldLabel} (frontmatter)`,
+      `b/${path} (frontmatter)`
+    ),
+    bodyDiff: createUnifiedDiff(current.content, next.content, oldLabel, `b/${path}`)
+  };
+}
+
+/**
+ * 読み込んだ後に変更されたノートについて、3方向の差分を作成する
+ * 読み込んだ時点の内容から、現在の内容と書き込もうとした内容のそれぞれへの差分を示す
+ * （読み込んだ時点の内容がわからない場合は、現在の内容と書き込もうとした内容の差分のみ）
+ * @param path ノートのパス
+ * @param baseContent 読み込んだ時点の内容（わからない場合null）
+ * @param currentContent 現在の内容（削除されている場合null）
+ * @param proposedContent 書き込もうとした内容（ない場合null）
+ * @returns 差分の説明
+ */
+export function createConflictDiff(
+  path: string,
+  baseContent: string | null,
+  currentContent: string | null,
+  proposedContent: string | null
+): string {
+  const sections: string[] = [];
+
+  if (baseContent !== null) {
+    sections.push(
+      'Changes made since the note was read (base → current):\n' +
+      (currentContent === null
+        ? '(the note was deleted)\n'
+        : createUnifiedDiff(baseContent, currentContent, `base/${path}`, `current/${path}`) || '(no changes)\n')
+    );
+    if (proposedContent !== null) {
+      sections.push(
+        'Changes that were not written (base → proposed):\n' +
+        (createUnifiedDiff(baseContent, proposedContent, `base/${path}`, `proposed/${path}`) || '(no changes)\n')
+      );
+    }
+  } else if (proposedContent !== null) {
+    sections.push(
+      'The version that was read is not in the history. Differences between the current note and the content that was not written (current → proposed):\n' +
+      (createUnifiedDiff(currentContent ?? '', proposedContent, currentContent === null ? '/dev/null' : `current/${path}`, `proposed/${path}`) || '(no changes)\n')
+    );
+  }
+
+  return sections.join('\n');
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSystemHelper } from './file-system.js';
+import { VersionStore } from './version-store.js';
+
+describe('FileSystemHelper backups', () => {
+  let vaultPath: string;
+  let fileSystem: FileSystemHelper;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-system-'));
+    fileSystem = new FileSystemHelper(vaultPath);
+    await fileSystem.writeFile('notes/Guide.md', '# Guide\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  it('keeps backups out of the notes of the vault', async () => {
+    const backup = await fileSystem.createBackup('notes/Guide.md');
+
+    expect(await fileSystem.readBackup(backup.id)).toBe('# Guide\n');
+    expect(await fileSystem.listMarkdownFiles()).toEqual(['notes/Guide.md']);
+    expect((await fs.readdir(vaultPath)).sort()).toEqual(['.mcp-backups', 'notes']);
+  });
+
+  it('moves backups of the old format next to the notes into the backup store', async () => {
+    const timestamp = Date.now() - 1000;
+    await fileSystem.writeFile(`notes/Guide.backup-${timestamp}.md`, '# Old\n');
+    expect(await fileSystem.listMarkdownFiles()).toEqual(['notes/Guide.md']);
+
+    const [backup] = await fileSystem.listBackups('notes/Guide.md');
+
+    expect(backup).toMatchObject({ operation: 'external', timestamp: new Date(timestamp).toISOString() });
+    expect(await fileSystem.readBackup(backup.id)).toBe('# Old\n');
+    expect(await fileSystem.exists(`notes/Guide.backup-${timestamp}.md`)).toBe(false);
+  });
+});
+
+describe('FileTransaction', () => {
+  let vaultPath: string;
+  let fileSystem: FileSystemHelper;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-transaction-'));
+    fileSystem = new FileSystemHelper(vaultPath);
+    await fileSystem.writeFile('A.md', 'A');
+    await fileSystem.writeFile('B.md', 'B');
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  it('applies every change and backs up the existing files', async () => {
+    const backups = await fileSystem.beginTransaction().write('A.md', 'A2').write('C.md', 'C').delete('B.md').commit('update');
+
+    expect(backups.map(backup => backup.originalPath)).toEqual(['A.md', 'B.md']);
+    expect(await fileSystem.readFile('A.md')).toBe('A2');
+    expect(await fileSystem.readFile('C.md')).toBe('C');
+    expect(await fileSystem.exists('B.md')).toBe(false);
+  });
+
+  it('restores the applied changes when a later change fails', async () => {
+    // A.md はファイルのため、その下には書き込めない
+    const transaction = fileSystem
+      .beginTransaction()
+      .write('A.md', 'A2')
+      .delete('B.md')
+      .write('New.md', 'new')
+      .write('A.md/Child.md', 'child');
+
+    await expect(transaction.commit()).rejects.toThrow();
+
+    expect(await fileSystem.readFile('A.md')).toBe('A');
+    expect(await fileSystem.readFile('B.md')).toBe('B');
+    expect(await fileSystem.exists('New.md')).toBe(false);
+  });
+
+  it('does not write anything when an expected file has changed', async () => {
+    const readHash = VersionStore.hash('A');
+    await fileSystem.beginTransaction().write('A.md', 'A by someone else').commit('update');
+
+    const transaction = fileSystem.beginTransaction().write('B.md', 'B2').write('A.md', 'A2').expect('A.md', readHash);
+
+    await expect(transaction.commit('update')).rejects.toThrow(/^CONFLICT: 'A.md' was changed after it was read/);
+    expect(await fileSystem.readFile('A.md')).toBe('A by someone else');
+    expect(await fileSystem.readFile('B.md')).toBe('B');
+  });
+
+  it('cannot be committed twice', async () => {
+    const transaction = fileSystem.beginTransaction().write('A.md', 'A2');
+    await transaction.commit();
+
+    await expect(transaction.commit()).rejects.toThrow('already been committed');
+  });
+});
+
+describe('FileSystemHelper.assertUnchanged', () => {
+  let vaultPath: string;
+  let fileSystem: FileSystemHelper;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'assert-unchanged-'));
+    fileSystem = new FileSystemHelper(vaultPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  it('accepts the content that was read', async () => {
+    await expect(fileSystem.assertUnchanged('A.md', VersionStore.hash('A'), 'A')).resolves.toBeUndefined();
+  });
+
+  it('finds the version that was read in the history for the diff', async () => {
+    await fileSystem.beginTransaction().write('A.md', 'line\n').commit('create');
+    await fileSystem.beginTransaction().write('A.md', 'line\nexternal\n').commit('update');
+
+    await expect(
+      fileSystem.assertUnchanged('A.md', VersionStore.hash('line\n'), 'line\nexternal\n', 'line\nmine\n')
+    ).rejects.toThrow(/base → current[\s\S]*\+external[\s\S]*base → proposed[\s\S]*\+mine/);
+  });
+
+  it('reports a deleted file', async () => {
+    await expect(fileSystem.assertUnchanged('A.md', VersionStore.hash('A'), null, null, 'A')).rejects.toThrow(
+      /^CONFLICT: 'A.md' was deleted after it was read[\s\S]*\(the note was deleted\)/
+    );
+  });
+});
@@ -1,14 +1,22 @@
 import { promises as fs } from 'fs';
-import { join, dirname, basename, extname } from 'path';
-import { BackupInfo, ErrorCode } from '../types/index.js';
+import { join } from 'path';
+import { BackupInfo, BackupRetention, VersionOperation, ErrorCode } from '../types/index.js';
+import {
+  VersionStore,
+  BACKUP_STORE_DIR,
+  LEGACY_BACKUP_PATTERN,
+  DEFAULT_BACKUP_RETENTION
+} from './version-store.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { createConflictDiff } from './diff.js';
 
 export class FileSystemHelper {
   private vaultPath: string;
-  private backupRetentionDays: number;
+  private versions: VersionStore;
 
-  constructor(vaultPath: string, backupRetentionDays: number = 30) {
+  constructor(vaultPath: string, backupRetention: BackupRetention = DEFAULT_BACKUP_RETENTION) {
     this.vaultPath = vaultPath;
-    this.backupRetentionDays = backupRetentionDays;
+    this.versions = new VersionStore(vaultPath, backupRetention, () => this.findLegacyBackups());
   }
 
   /**
@@ -48,88 +56,178 @@ export class FileSystemHelper {
     }
   }
 
+  /**
+   * ファイルの更新日時を取得
+   * @param filePath ファイルパス
+   * @returns 更新日時
+   */
+  async getModifiedTime(filePath: string): Promise<Date> {
+    try {
+      return (await fs.stat(this.getAbsolutePath(filePath))).mtime;
+    } catch (error) {
+      throw new Error(`${ErrorCode.FILE_NOT_FOUND}: Cannot read file '${filePath}': ${error}`);
+    }
+  }
+
+  /**
+   * ファイルが読み込んだ時点から変更されていないことを確認する
+   * @param filePath ファイルパス
+   * @param expectedHash 読み込んだ時点の内容のハッシュ
+   * @param currentContent 現在の内容（存在しない場合null）
+   * @param proposedContent 書き込もうとしている内容（差分に表示する、省略可）
+   * @param baseContent 読み込んだ時点の内容（省略時は版の履歴から探す）
+   * @throws 変更されている場合は CONFLICT（3方向の差分を含む）
+   */
+  async assertUnchanged(
+    filePath: string,
+    expectedHash: string,
+    currentContent: string | null,
+    proposedContent: string | null = null,
+    baseContent?: string
+  ): Promise<void> {
+    const currentHash = currentContent === null ? null : VersionStore.hash(currentContent);
+    if (currentHash === expectedHash) {
+      return;
+    }
+
+    const base = baseContent ?? await this.findVersionContent(filePath, expectedHash);
+    throw new Error(
+      `${ErrorCode.CONFLICT}: '${filePath}' was ${currentHash === null ? 'deleted' : 'changed'} after it was read ` +
+      `(expected hash ${expectedHash}${currentHash ? `, current hash ${currentHash}` : ''}). ` +
+      `Read the note again and retry\n\n` +
+      createConflictDiff(filePath, base, currentContent, proposedContent)
+    );
+  }
+
+  /**
+   * 版の履歴から指定したハッシュの内容を探す
+   * @param filePath ファイルパス
+   * @param hash 内容のハッシュ
+   * @returns 内容（見つからない場合null）
+   */
+  private async findVersionContent(filePath: string, hash: string): Promise<string | null> {
+    try {
+      const version = (await this.versions.list(filePath)).find(backup => backup.hash === hash);
+      return version ? await this.versions.read(version.id) : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * ファイルを書き込み
+   * 一時ファイルから置き換えるため、書き込み途中で停止しても内容が途中で切れたファイルは残らない
+   * （ディレクトリが存在しない場合は作成する）
    * @param filePath ファイルパス
    * @param content ファイル内容
    */
   async writeFile(filePath: string, content: string): Promise<void> {
     try {
-      const absolutePath = this.getAbsolutePath(filePath);
-      
-      // ディレクトリが存在しない場合は作成
-      await fs.mkdir(dirname(absolutePath), { recursive: true });
-      
-      await fs.writeFile(absolutePath, content, 'utf-8');
+      await writeFileAtomic(this.getAbsolutePath(filePath), content);
     } catch (error) {
       throw new Error(`${ErrorCode.PERMISSION_DENIED}: Cannot write file '${filePath}': ${error}`);
     }
   }
 
   /**
-   * バックアップファイルを作成
+   * ファイルを削除
+   * @param filePath ファイルパス
+   */
+  async deleteFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(this.getAbsolutePath(filePath));
+    } catch (error) {
+      throw new Error(`${ErrorCode.PERMISSION_DENIED}: Cannot delete file '${filePath}': ${error}`);
+    }
+  }
+
+  /**
+   * 複数のファイルの変更をまとめて適用するトランザクションを開始する
+   * @returns トランザクション
+   */
+  beginTransaction(): FileTransaction {
+    return new FileTransaction(this);
+  }
+
+  /**
+   * 変更前のノートをバックアップする
+   * 最新の版と内容が同じ場合は新しい版を作らず、最新の版を返す
+   * （異なる場合はObsidianでの編集などこのサーバー以外の変更として記録する）
    * @param filePath バックアップ対象のファイルパス
    * @returns バックアップ情報
    */
   async createBackup(filePath: string): Promise<BackupInfo> {
     try {
-      const absolutePath = this.getAbsolutePath(filePath);
-      const content = await fs.readFile(absolutePath, 'utf-8');
-      
-      // バックアップファイル名を生成
-      const timestamp = Date.now();
-      const ext = extname(filePath);
-      const baseName = basename(filePath, ext);
-      const dir = dirname(filePath);
-      
-      const backupFileName = `${baseName}.backup-${timestamp}${ext}`;
-      const backupPath = join(dir, backupFileName);
-      const backupAbsolutePath = this.getAbsolutePath(backupPath);
-      
-      // バックアップファイルを作成
-      await fs.writeFile(backupAbsolutePath, content, 'utf-8');
-      
-      const stats = await fs.stat(backupAbsolutePath);
-      
-      return {
-        originalPath: filePath,
-        backupPath: backupPath,
-        timestamp: new Date(timestamp).toISOString(),
-        size: stats.size
-      };
+      const content = await fs.readFile(this.getAbsolutePath(filePath), 'utf-8');
+      return await this.versions.snapshot(filePath, content, 'external');
     } catch (error) {
       throw new Error(`${ErrorCode.BACKUP_FAILED}: Cannot create backup for '${filePath}': ${error}`);
     }
   }
 
   /**
-   * 古いバックアップファイルを削除
-   * @param directory 対象ディレクトリ
+   * 変更後のノートを版の履歴に記録する
+   * @param filePath ファイルパス
+   * @param operation 変更した操作
+   * @returns 記録した版
    */
-  async cleanupOldBackups(directory: string = ''): Promise<void> {
+  async recordVersion(filePath: string, operation: VersionOperation): Promise<BackupInfo> {
     try {
-      const dirPath = this.getAbsolutePath(directory);
-      const files = await fs.readdir(dirPath, { withFileTypes: true });
-      
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.backupRetentionDays);
-      
-      for (const file of files) {
-        if (file.isFile() && file.name.includes('.backup-')) {
-          const filePath = join(dirPath, file.name);
-          const stats = await fs.stat(filePath);
-          
-          if (stats.mtime < cutoffDate) {
-            await fs.unlink(filePath);
-          }
-        }
-      }
+      const content = await fs.readFile(this.getAbsolutePath(filePath), 'utf-8');
+      return await this.versions.snapshot(filePath, content, operation);
+    } catch (error) {
+      throw new Error(`${ErrorCode.BACKUP_FAILED}: Cannot record version of '${filePath}': ${error}`);
+    }
+  }
+
+  /**
+   * 保持ポリシー（保持期間・ノートごとの版数・合計サイズ）に従って古いバックアップを削除
+   */
+  async cleanupOldBackups(): Promise<void> {
+    try {
+      await this.versions.cleanup();
     } catch (error) {
       // バックアップクリーンアップのエラーは警告レベルで処理
-      console.warn(`Warning: Failed to cleanup old backups in '${directory}': ${error}`);
+      console.warn(`Warning: Failed to cleanup old backups in '${BACKUP_STORE_DIR}': ${error}`);
     }
   }
 
+  /**
+   * バックアップを新しい順に一覧する
+   * @param originalPath 元のノートのパス（省略時はすべてのノート）
+   * @returns バックアップ情報の配列
+   */
+  async listBackups(originalPath?: string): Promise<BackupInfo[]> {
+    return await this.versions.list(originalPath);
+  }
+
+  /**
+   * バックアップを取得する
+   * @param backupId バックアップのID
+   * @returns バックアップ情報
+   */
+  async getBackup(backupId: string): Promise<BackupInfo> {
+    return await this.versions.get(backupId);
+  }
+
+  /**
+   * バックアップの内容を読み込む
+   * @param backupId バックアップのID
+   * @returns ノートの内容
+   */
+  async readBackup(backupId: string): Promise<string> {
+    return await this.versions.read(backupId);
+  }
+
+  /**
+   * 元のノートと同じフォルダにある以前の形式のバックアップを探す
+   * @returns Vaultルートからの相対パスの一覧
+   */
+  private async findLegacyBackups(): Promise<string[]> {
+    const files = await this.getAllFiles(this.vaultPath, name => LEGACY_BACKUP_PATTERN.test(name));
+    return files.map(file => file.replace(this.vaultPath, '').replace(/^\//, ''));
+  }
+
   /**
    * ファイルを検索
    * @param searchTerm 検索語
@@ -161,12 +259,43 @@ export class FileSystemHelper {
     }
   }
 
+  /**
+   * Vault内のMarkdownファイルを一覧する
+   * @param directory 一覧するディレクトリ（Vaultルートからの相対パス）
+   * @returns Vaultルートからの相対パスの一覧
+   */
+  async listMarkdownFiles(directory: string = ''): Promise<string[]> {
+    const files = await this.getAllMarkdownFiles(this.getAbsolutePath(directory));
+    return files.map(file => file.replace(this.vaultPath, '').replace(/^\//, ''));
+  }
+
+  /**
+   * Vault内のファイル（添付ファイルを含む）を一覧する
+   * @param directory 一覧するディレクトリ（Vaultルートからの相対パス）
+   * @returns Vaultルートからの相対パスの一覧
+   */
+  async listFiles(directory: string = ''): Promise<string[]> {
+    const files = await this.getAllFiles(this.getAbsolutePath(directory), name => !LEGACY_BACKUP_PATTERN.test(name));
+    return files.map(file => file.replace(this.vaultPath, '').replace(/^\//, ''));
+  }
+
   /**
    * ディレクトリ内のすべてのMarkdownファイルを取得
+   * 移行前の以前の形式のバックアップは除く
    * @param directory 検索ディレクトリ
    * @returns Markdownファイルのパス一覧
    */
   private async getAllMarkdownFiles(directory: string): Promise<string[]> {
+    return await this.getAllFiles(directory, name => name.endsWith('.md') && !LEGACY_BACKUP_PATTERN.test(name));
+  }
+
+  /**
+   * ディレクトリ内の条件に合うすべてのファイルを取得（隠しディレクトリは除く）
+   * @param directory 検索ディレクトリ
+   * @param filter ファイル名の条件
+   * @returns ファイルのパス一覧
+   */
+  private async getAllFiles(directory: string, filter: (name: string) => boolean): Promise<string[]> {
     const files: string[] = [];
     
     try {
@@ -177,9 +306,9 @@ export class FileSystemHelper {
         
         if (item.isDirectory() && !item.name.startsWith('.')) {
           // 隠しディレクトリ以外を再帰的に検索
-          const subFiles = await this.getAllMarkdownFiles(itemPath);
+          const subFiles = await this.getAllFiles(itemPath, filter);
           files.push(...subFiles);
-        } else if (item.isFile() && item.name.endsWith('.md')) {
+        } else if (item.isFile() && filter(item.name)) {
           files.push(itemPath);
         }
       }
@@ -189,4 +318,157 @@ export class FileSystemHelper {
     
     return files;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 複数のファイルの変更をためておき、すべて適用するか、途中で失敗した場合はすべて元に戻す
+ */
+export class FileTransaction {
+  private fileSystem: FileSystemHelper;
+  // 変更後の内容（nullの場合は削除）
+  private changes = new Map<string, string | null>();
+  // 書き込む前に変更されていないことを確認するファイル
+  private expectations = new Map<string, { hash: string; baseContent?: string }>();
+  private committed = false;
+
+  constructor(fileSystem: FileSystemHelper) {
+    this.fileSystem = fileSystem;
+  }
+
+  /**
+   * ファイルの書き込みを追加する（同じファイルへの変更は後のものが優先される）
+   * @param filePath ファイルパス
+   * @param content ファイル内容
+   * @returns このトランザクション
+   */
+  write(filePath: string, content: string): this {
+    this.changes.set(filePath, content);
+    return this;
+  }
+
+  /**
+   * ファイルの削除を追加する
+   * @param filePath ファイルパス
+   * @returns このトランザクション
+   */
+  delete(filePath: string): this {
+    this.changes.set(filePath, null);
+    return this;
+  }
+
+  /**
+   * ファイルが読み込んだ時点から変更されていないことを、書き込む直前に確認する
+   * @param filePath ファイルパス
+   * @param expectedHash 読み込んだ時点の内容のハッシュ
+   * @param baseContent 読み込んだ時点の内容（競合時の差分に使う。省略時は版の履歴から探す）
+   * @returns このトランザクション
+   */
+  expect(filePath: string, expectedHash: string, baseContent?: string): this {
+    this.expectations.set(filePath, { hash: expectedHash, baseContent });
+    return this;
+  }
+
+  /**
+   * 変更するファイルの一覧
+   */
+  get paths(): string[] {
+    return [...this.changes.keys()];
+  }
+
+  /**
+   * 追加した変更を順に適用する
+   * 途中で失敗した場合は、適用済みのファイルを変更前の内容に戻してからエラーを投げる
+   * 操作を指定した場合は、既存のファイルを変更前にバックアップし、書き込んだファイルを版の履歴に記録する
+   * （確認したファイルが変更されていた場合やバックアップに失敗した場合は、どのファイルも変更しない）
+   * @param operation 版の履歴に記録する操作（省略時はバックアップしない）
+   * @returns 変更前の既存のファイルのバックアップ
+   */
+  async commit(operation?: VersionOperation): Promise<BackupInfo[]> {
+    if (this.committed) {
+      throw new Error('Transaction has already been committed');
+    }
+    this.committed = true;
+
+    // 元に戻すために変更前の内容を読み込んでおく（存在しないファイルはnull）
+    const originals = new Map<string, string | null>();
+    for (const path of new Set([...this.changes.keys(), ...this.expectations.keys()])) {
+      originals.set(path, (await this.fileSystem.exists(path)) ? await this.fileSystem.readFile(path) : null);
+    }
+
+    for (const [path, expectation] of this.expectations) {
+      await this.fileSystem.assertUnchanged(
+        path,
+        expectation.hash,
+        originals.get(path) ?? null,
+        this.changes.get(path) ?? null,
+        expectation.baseContent
+      );
+    }
+
+    const backups: BackupInfo[] = [];
+    if (operation) {
+      for (const [path, original] of originals) {
+        if (original !== null && this.changes.has(path)) {
+          backups.push(await this.fileSystem.createBackup(path));
+        }
+      }
+    }
+
+    const applied: string[] = [];
+    try {
+      for (const [path, content] of this.changes) {
+        if (content !== null) {
+          await this.fileSystem.writeFile(path, content);
+        } else if (originals.get(path) !== null) {
+          await this.fileSystem.deleteFile(path);
+        }
+        applied.push(path);
+      }
+
+      if (operation) {
+        for (const [path, content] of this.changes) {
+          if (content !== null) {
+            await this.fileSystem.recordVersion(path, operation);
+          }
+        }
+      }
+    } catch (error) {
+      await this.rollback(applied, originals, error);
+      throw error;
+    }
+
+    return backups;
+  }
+
+  /**
+   * 適用済みのファイルを変更前の内容に戻す（新しく作成したファイルは削除する）
+   * @param applied 適用済みのファイル
+   * @param originals 変更前の内容
+   * @param cause コミットが失敗した原因
+   * @throws 元に戻せなかったファイルがある場合は ROLLBACK_FAILED
+   */
+  private async rollback(applied: string[], originals: Map<string, string | null>, cause: unknown): Promise<void> {
+    const failed: string[] = [];
+
+    for (const path of [...applied].reverse()) {
+      const original = originals.get(path) ?? null;
+      try {
+        if (original !== null) {
+          await this.fileSystem.writeFile(path, original);
+        } else if (await this.fileSystem.exists(path)) {
+          await this.fileSystem.deleteFile(path);
+        }
+      } catch (error) {
+        console.error(`Failed to roll back '${path}': ${error}`);
+        failed.push(path);
+      }
+    }
+
+    if (failed.length > 0) {
+      const reason = cause instanceof Error ? cause.message : String(cause);
+      throw new Error(
+        `${ErrorCode.ROLLBACK_FAILED}: Could not restore ${failed.map(path => `'${path}'`).join(', ')} after a failed change (${reason})`
+      );
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { FrontmatterEditor } from './frontmatter-editor.js';
+
+describe('FrontmatterEditor', () => {
+  const note = [
+    '---',
+    '# keep this comment',
+    'title: "Hello"',
+    'date: 2024-01-02',
+    'tags:',
+    '  - a',
+    '  - b',
+    'meta:',
+    '  x: 1',
+    '---',
+    '# Body',
+    ''
+  ].join('\n');
+
+  it('rewrites only the changed keys', () => {
+    const result = FrontmatterEditor.apply(note, new Map<string, unknown>([['tags', ['a', 'b', 'c']]]));
+
+    expect(result).toBe(note.replace('  - b\n', '  - b\n  - c\n'));
+  });
+
+  it('removes keys and appends new keys at the end', () => {
+    const result = FrontmatterEditor.apply(note, new Map<string, unknown>([['meta', undefined], ['status', 'done']]));
+
+    expect(result).toBe(note.replace('meta:\n  x: 1\n', 'status: done\n'));
+  });
+
+  it('writes date strings without quotes when asked to', () => {
+    const result = FrontmatterEditor.apply(note, new Map([['date', '2024-02-01']]), new Set(['date']));
+
+    expect(result).toContain('\ndate: 2024-02-01\n');
+  });
+
+  it('creates frontmatter when the note has none', () => {
+    expect(FrontmatterEditor.apply('Body\n', new Map([['status', 'done']]))).toBe('---\nstatus: done\n---\nBody\n');
+  });
+
+  it('replaces the body and keeps the frontmatter lines', () => {
+    expect(FrontmatterEditor.replaceBody(note, 'New body\n')).toBe(note.replace('# Body\n', 'New body\n'));
+    expect(FrontmatterEditor.replaceBody('Old\n', 'New\n')).toBe('New\n');
+  });
+});
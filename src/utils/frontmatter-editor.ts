@@ -0,0 +1,125 @@
+import matter from 'gray-matter';
+
+// トップレベルのキーの行（key: value / "key": value）
+const KEY_LINE_PATTERN = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"\-][^:]*?))\s*:(?:\s|$)/;
+
+export class FrontmatterEditor {
+  /**
+   * Frontmatterの指定したキーだけを書き換える
+   * 変更しないキーの行（コメント・書式を含む）と順序はそのまま残し、新しいキーは末尾に追加する
+   * Frontmatterがない場合は作成する
+   * @param content ノートの内容
+   * @param values キーと新しい値（undefinedの場合はキーを削除）
+   * @param plainKeys 文字列の値を引用符で囲まずに書き込むキー（Obsidianと同じ形式で日付を書き込む場合）
+   * @returns 変更後のノートの内容
+   */
+  static apply(content: string, values: Map<string, unknown>, plainKeys: Set<string> = new Set()): string {
+    const { yamlLines, body } = this.split(content);
+    const blocks = this.blocks(yamlLines);
+    const remaining = new Map(values);
+    const result: string[] = [];
+
+    for (const block of blocks) {
+      if (block.key === null || !remaining.has(block.key)) {
+        result.push(...block.lines);
+        continue;
+      }
+      const value = remaining.get(block.key);
+      remaining.delete(block.key);
+      if (value !== undefined) {
+        result.push(...this.dump(block.key, value, plainKeys.has(block.key)));
+      }
+    }
+    for (const [key, value] of remaining) {
+      if (value !== undefined) {
+        result.push(...this.dump(key, value, plainKeys.has(key)));
+      }
+    }
+
+    return ['---', ...result, '---', body].join('\n');
+  }
+
+  /**
+   * Frontmatterの行はそのまま残し、本文だけを置き換える
+   * @param content ノートの内容
+   * @param body 新しい本文
+   * @returns 変更後のノートの内容（Frontmatterがない場合は本文のみ）
+   */
+  static replaceBody(content: string, body: string): string {
+    const { yamlLines, found } = this.split(content);
+    return found ? ['---', ...yamlLines, '---', body].join('\n') : body;
+  }
+
+  /**
+   * ノートの内容をFrontmatterの行と本文に分ける
+   * @param content ノートの内容
+   * @returns Frontmatterの行（区切りの --- を除く）、本文、Frontmatterがあったか
+   */
+  private static split(content: string): { yamlLines: string[]; body: string; found: boolean } {
+    const lines = content.split('\n');
+    const end = lines[0]?.trim() === '---'
+      ? lines.findIndex((line, i) => i > 0 && line.trim() === '---')
+      : -1;
+    return end === -1
+      ? { yamlLines: [], body: content, found: false }
+      : { yamlLines: lines.slice(1, end), body: lines.slice(end + 1).join('\n'), found: true };
+  }
+
+  /**
+   * Frontmatterの行をトップレベルのキーごとのまとまりに分ける
+   * インデントされた行・リスト項目・ブロックスカラー内の空行は直前のキーに含める
+   * @param lines Frontmatterの行（区切りの --- を除く）
+   * @returns キー（キーではない行はnull）と行のまとまり
+   */
+  private static blocks(lines: string[]): Array<{ key: string | null; lines: string[] }> {
+    const blocks: Array<{ key: string | null; lines: string[] }> = [];
+    let current: { key: string | null; lines: string[] } | null = null;
+    let pendingBlank: string[] = [];
+
+    for (const line of lines) {
+      const keyMatch = line.match(KEY_LINE_PATTERN);
+      if (keyMatch) {
+        if (pendingBlank.length > 0) {
+          blocks.push({ key: null, lines: pendingBlank });
+          pendingBlank = [];
+        }
+        const key = keyMatch[1] !== undefined
+          ? keyMatch[1].replace(/\\(.)/g, '$1')
+          : keyMatch[2] !== undefined
+            ? keyMatch[2].replace(/''/g, "'")
+            : keyMatch[3];
+        current = { key, lines: [line] };
+        blocks.push(current);
+      } else if (!line.trim()) {
+        pendingBlank.push(line);
+      } else if (current && (/^\s/.test(line) || /^-(\s|$)/.test(line))) {
+        current.lines.push(...pendingBlank, line);
+        pendingBlank = [];
+      } else {
+        // コメントなどキーに属さない行
+        current = null;
+        blocks.push({ key: null, lines: [...pendingBlank, line] });
+        pendingBlank = [];
+      }
+    }
+    if (pendingBlank.length > 0) {
+      blocks.push({ key: null, lines: pendingBlank });
+    }
+    return blocks;
+  }
+
+  /**
+   * キーと値をYAMLの行に変換する
+   * @param key キー
+   * @param value 値
+   * @param plain 文字列の値を引用符で囲まずに書き込むか
+   * @returns YAMLの行
+   */
+  private static dump(key: string, value: unknown, plain: boolean = false): string[] {
+    if (plain && typeof value === 'string') {
+      return [this.dump(key, null)[0].replace(/null$/, value)];
+    }
+    const yaml = matter.stringify('', { [key]: value });
+    return yaml.replace(/^---\n/, '').replace(/\n---\n[\s\S]*$/, '').split('\n');
+  }
+}
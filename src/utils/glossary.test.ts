@@ -0,0 +1,75 @@
+import { Glossary } from './glossary.js';
+import { TranslationService } from './translation.js';
+import { PseudoProvider } from '../providers/pseudo.js';
+
+const NOTE = [
+  '---',
+  'glossary:',
+  '  Obsidian: keep',
+  '  vault: 保管庫',
+  '  note:',
+  '    日本語: ノート',
+  '    Deutsch: Notiz',
+  '---',
+  '',
+  '| Term | Translation | Language |',
+  '| --- | --- | --- |',
+  '| plugin | プラグイン | 日本語 |',
+  '| MCP | - | |',
+  ''
+].join('\n');
+
+describe('Glossary', () => {
+  it('reads terms from the frontmatter and from tables', () => {
+    expect(Glossary.parseNote(NOTE)).toEqual([
+      { source: 'Obsidian', doNotTranslate: true },
+      { source: 'vault', target: '保管庫', doNotTranslate: false },
+      { source: 'note', language: '日本語', target: 'ノート', doNotTranslate: false },
+      { source: 'note', language: 'Deutsch', target: 'Notiz', doNotTranslate: false },
+      { source: 'plugin', target: 'プラグイン', language: '日本語', doNotTranslate: false },
+      { source: 'MCP', doNotTranslate: true }
+    ]);
+  });
+
+  it('prefers terms for the target language', () => {
+    const entries = Glossary.forLanguage(Glossary.parseNote(NOTE), 'Deutsch');
+
+    expect(entries.find(entry => entry.source === 'note')?.target).toBe('Notiz');
+    expect(entries.some(entry => entry.source === 'plugin')).toBe(false);
+  });
+
+  it('matches the term language by name or code', () => {
+    const entries = Glossary.forLanguage(Glossary.parseNote(NOTE), 'ja');
+
+    expect(entries.find(entry => entry.source === 'note')?.target).toBe('ノート');
+    expect(entries.some(entry => entry.source === 'plugin')).toBe(true);
+  });
+
+  it('reports terms the translation did not follow', () => {
+    const entries = Glossary.forLanguage(Glossary.parseNote(NOTE), '日本語');
+
+    const violations = Glossary.check(
+      'Open the vault in Obsidian and install a plugin.',
+      'Obsidianで保管庫を開き、拡張機能をインストールします。',
+      entries
+    );
+
+    expect(violations).toEqual([{ source: 'plugin', expected: 'プラグイン', doNotTranslate: false }]);
+  });
+
+  it('matches alphanumeric terms on word boundaries only', () => {
+    const entries = [{ source: 'note', target: 'ノート', doNotTranslate: false }];
+
+    expect(Glossary.check('Read the notebook.', 'ノートブックを読む。', entries)).toEqual([]);
+  });
+
+  it('returns glossary violations from a translation', async () => {
+    const service = new TranslationService(new PseudoProvider());
+
+    const output = await service.translateContent('Obsidian stores notes.\n', 'de', {
+      glossary: [{ source: 'Obsidian', doNotTranslate: true }]
+    });
+
+    expect(output.glossaryViolations).toEqual([{ source: 'Obsidian', expected: 'Obsidian', doNotTranslate: true }]);
+  });
+});
@@ -0,0 +1,174 @@
+import matter from 'gray-matter';
+import { GlossaryEntry, GlossaryViolation } from '../types/index.js';
+import { LanguageCode } from './language.js';
+
+// 翻訳しない用語を表す値
+const DO_NOT_TRANSLATE_VALUES = ['keep', '-', ''];
+
+export class Glossary {
+  /**
+   * 用語集ノートから用語を読み込む
+   * Frontmatterの glossary ブロックと、本文の「原語 | 訳語 | 言語」形式のテーブルに対応する
+   * @param rawContent 用語集ノートの内容
+   * @returns 用語の配列
+   */
+  static parseNote(rawContent: string): GlossaryEntry[] {
+    const { data: frontmatter, content } = matter(rawContent);
+    return [
+      ...this.fromFrontmatter(frontmatter.glossary),
+      ...this.fromMarkdownTable(content),
+    ];
+  }
+
+  /**
+   * Frontmatterの glossary ブロックから用語を読み込む
+   * - `用語: keep` は翻訳しない用語
+   * - `用語: 訳語` はすべての言語で使う訳語
+   * - `用語: { 日本語: 訳語, Deutsch: ... }` は言語ごとの訳語
+   * @param glossary glossary ブロックの値
+   * @returns 用語の配列
+   */
+  static fromFrontmatter(glossary: unknown): GlossaryEntry[] {
+    if (!glossary || typeof glossary !== 'object' || Array.isArray(glossary)) {
+      return [];
+    }
+
+    const entries: GlossaryEntry[] = [];
+    for (const [source, value] of Object.entries(glossary as Record<string, unknown>)) {
+      if (value === null || value === false || DO_NOT_TRANSLATE_VALUES.includes(String(value).trim())) {
+        entries.push({ source, doNotTranslate: true });
+      } else if (typeof value === 'object') {
+        for (const [language, target] of Object.entries(value as Record<string, unknown>)) {
+          const targetText = target === null ? '' : String(target).trim();
+          entries.push(
+            DO_NOT_TRANSLATE_VALUES.includes(targetText)
+              ? { source, language, doNotTranslate: true }
+              : { source, language, target: targetText, doNotTranslate: false }
+          );
+        }
+      } else {
+        entries.push({ source, target: String(value).trim(), doNotTranslate: false });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 本文のテーブルから用語を読み込む
+   * 1列目が原語、2列目が訳語（空または - で翻訳しない）、3列目が言語（省略可）
+   * @param content 本文
+   * @returns 用語の配列
+   */
+  static fromMarkdownTable(content: string): GlossaryEntry[] {
+    const entries: GlossaryEntry[] = [];
+    let isHeader = true;
+
+    for (const line of content.split('\n')) {
+      if (!/^\s*\|/.test(line)) {
+        isHeader = true;
+        continue;
+      }
+
+      const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+
+      // 各テーブルの1行目（ヘッダー）と区切り行は読み飛ばす
+      if (isHeader || cells.every(cell => /^:?-*:?$/.test(cell))) {
+        isHeader = false;
+        continue;
+      }
+
+      const [source, target = '', language = ''] = cells;
+      if (!source) {
+        continue;
+      }
+      const entry: GlossaryEntry = DO_NOT_TRANSLATE_VALUES.includes(target)
+        ? { source, doNotTranslate: true }
+        : { source, target, doNotTranslate: false };
+      if (language) {
+        entry.language = language;
+      }
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * 翻訳先言語に適用される用語のみを抽出する
+   * 同じ原語の用語は言語指定のあるものを優先する
+   * @param entries 用語の配列
+   * @param targetLanguage 翻訳先言語
+   * @returns 適用される用語の配列
+   */
+  static forLanguage(entries: GlossaryEntry[], targetLanguage: string): GlossaryEntry[] {
+    const bySource = new Map<string, GlossaryEntry>();
+
+    for (const entry of entries) {
+      // 言語名と言語コードのどちらで指定されていても同じ言語として扱う
+      if (entry.language && !LanguageCode.isSame(entry.language, targetLanguage)) {
+        continue;
+      }
+      const existing = bySource.get(entry.source);
+      if (!existing || !existing.language || entry.language) {
+        bySource.set(entry.source, entry);
+      }
+    }
+    return [...bySource.values()];
+  }
+
+  /**
+   * プロンプトに埋め込む用語集の指示を作成する
+   * @param entries 適用される用語の配列
+   * @returns プロンプトの一部（用語がない場合は空文字）
+   */
+  static toPromptSection(entries: GlossaryEntry[]): string {
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const lines = entries.map(entry =>
+      entry.doNotTranslate
+        ? `- ${entry.source} → 翻訳せずにそのまま残す`
+        : `- ${entry.source} → ${entry.target}`
+    );
+    return `\n用語集（以下の用語は必ずこの通りに訳してください）：\n${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 翻訳結果が用語集に従っているか検証する
+   * @param source 原文
+   * @param translated 翻訳文
+   * @param entries 適用される用語の配列
+   * @returns 用語集違反の配列
+   */
+  static check(source: string, translated: string, entries: GlossaryEntry[]): GlossaryViolation[] {
+    const violations: GlossaryViolation[] = [];
+
+    for (const entry of entries) {
+      if (!this.containsTerm(source, entry.source)) {
+        continue;
+      }
+      const expected = entry.doNotTranslate ? entry.source : entry.target!;
+      if (!translated.includes(expected)) {
+        violations.push({
+          source: entry.source,
+          expected,
+          doNotTranslate: entry.doNotTranslate,
+        });
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * テキストに用語が含まれるか判定する
+   * 英数字の用語は単語境界で、大文字小文字を区別せずに判定する
+   * @param text テキスト
+   * @param term 用語
+   * @returns 含まれる場合true
+   */
+  private static containsTerm(text: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = /^[\w\s-]+$/.test(term) ? `\\b${escaped}\\b` : escaped;
+    return new RegExp(pattern, 'i').test(text);
+  }
+}
@@ -0,0 +1,43 @@
+import { Interleaver } from './interleave.js';
+import { TranslatedSegment, MarkdownBlock } from '../types/index.js';
+
+const segment = (type: MarkdownBlock['type'], text: string, translation: string): TranslatedSegment => ({
+  source: { type, text, separator: '\n' },
+  translation
+});
+
+describe('Interleaver', () => {
+  it('places each translation after its source and keeps code and tables once', () => {
+    const body = Interleaver.build(
+      [
+        segment('heading', '# Title', '# Titel'),
+        segment('paragraph', 'Hello world.', 'Hallo Welt.'),
+        segment('code', '```\ncode\n```', '```\ncode\n```'),
+        segment('table', '| a |\n| - |', '| a |\n| - |')
+      ],
+      'plain',
+      'de'
+    );
+
+    expect(body).toBe('# Title / Titel\n\nHello world.\n\nHallo Welt.\n\n```\ncode\n```\n\n| a |\n| - |\n');
+  });
+
+  it('nests translated list items inside their source items', () => {
+    const body = Interleaver.build(
+      [segment('listItem', '1. First', '1. Erste'), segment('listItem', '- [ ] Task', '- [ ] Aufgabe')],
+      'plain',
+      'de'
+    );
+
+    expect(body).toBe('1. First\n   - Erste\n- [ ] Task\n  - Aufgabe\n');
+  });
+
+  it('wraps translations in a callout or a details block', () => {
+    const source = segment('paragraph', 'Hello.', 'Hallo.\nWelt.');
+
+    expect(Interleaver.build([source], 'callout', 'de')).toBe('Hello.\n\n> [!translation] de\n> Hallo.\n> Welt.\n');
+    expect(Interleaver.build([source], 'details', 'de')).toBe(
+      'Hello.\n\n<details>\n<summary>de</summary>\n\nHallo.\nWelt.\n\n</details>\n'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { TranslatedSegment, InterleavedStyle } from '../types/index.js';
+import { LIST_ITEM_PATTERN } from './markdown-syntax.js';
+
+export class Interleaver {
+  /**
+   * 原文の各段落・リスト項目・見出しの直後に訳文を配置した本文を作成する
+   * コードブロックとテーブルは原文のみを1回だけ出力する
+   * @param segments 原文と訳文の組
+   * @param style 訳文の表示形式
+   * @param label コールアウトや折りたたみに表示するラベル
+   * @returns 対訳の本文
+   */
+  static build(segments: TranslatedSegment[], style: InterleavedStyle, label: string): string {
+    let result = '';
+    let previousType: string | null = null;
+
+    for (const { source, translation } of segments) {
+      let part: string;
+
+      if (source.type === 'code' || source.type === 'table' || !translation.trim()) {
+        part = source.text;
+      } else if (source.type === 'heading') {
+        // 見出しはアウトラインが重複しないよう1行にまとめる
+        part = `${source.text} / ${translation.replace(/^#{1,6}\s+/, '').trim()}`;
+      } else if (source.type === 'listItem') {
+        part = `${source.text}\n${this.formatListItem(source.text, translation.trim(), style, label)}`;
+      } else {
+        part = `${source.text}\n\n${this.formatBlock(translation.trim(), style, label)}`;
+      }
+
+      // 連続するリスト項目は空行を挟まずに出力してリストを保つ
+      const separator = previousType === 'listItem' && source.type === 'listItem' ? '\n' : '\n\n';
+      result += (previousType === null ? '' : separator) + part;
+      previousType = source.type;
+    }
+
+    return result + '\n';
+  }
+
+  /**
+   * 段落の訳文を表示形式に合わせて整形する
+   * @param translation 訳文
+   * @param style 表示形式
+   * @param label ラベル
+   * @returns 整形された訳文
+   */
+  private static formatBlock(translation: string, style: InterleavedStyle, label: string): string {
+    switch (style) {
+      case 'callout':
+        return `> [!translation] ${label}\n` + translation.split('\n').map(line => `> ${line}`).join('\n');
+      case 'details':
+        return `<details>\n<summary>${label}</summary>\n\n${translation}\n\n</details>`;
+      default:
+        return translation;
+    }
+  }
+
+  /**
+   * リスト項目の訳文を表示形式に合わせて整形する
+   * 訳文は原文の項目の内側に配置し、番号付きリストの番号やタスクの状態を崩さないようにする
+   * @param sourceItem 原文の項目
+   * @param translation 訳文の項目
+   * @param style 表示形式
+   * @param label ラベル
+   * @returns 整形された訳文
+   */
+  private static formatListItem(
+    sourceItem: string,
+    translation: string,
+    style: InterleavedStyle,
+    label: string
+  ): string {
+    const match = sourceItem.match(LIST_ITEM_PATTERN);
+    const innerIndent = match ? match[1] + ' '.repeat(match[2].length + 1) : '  ';
+    const text = translation.replace(LIST_ITEM_PATTERN, '');
+
+    const formatted = style === 'plain'
+      ? text.split('\n').map((line, i) => (i === 0 ? `- ${line}` : `  ${line.trimStart()}`)).join('\n')
+      : this.formatBlock(text, style, label);
+
+    return formatted
+      .split('\n')
+      .map(line => (line ? innerIndent + line : line))
+      .join('\n');
+  }
+}
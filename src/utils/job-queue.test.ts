@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TranslationJobQueue, TranslationJobRunner, TRANSLATION_JOBS_PATH } from './job-queue.js';
+import { FileSystemHelper } from './file-system.js';
+import { Usage } from './usage.js';
+import { BatchTranslationReport, TranslationJob, TranslationJobStatus, ErrorCode } from '../types/index.js';
+
+const REPORT: BatchTranslationReport = {
+  targetLanguage: 'de',
+  items: [],
+  succeeded: 0,
+  failed: 0,
+  skipped: 0,
+  usage: Usage.empty(),
+  sessionUsage: Usage.empty()
+};
+
+/**
+ * ジョブが指定した状態になるまで待つ
+ */
+async function waitFor(queue: TranslationJobQueue, id: string, status: TranslationJobStatus): Promise<TranslationJob> {
+  for (let i = 0; i < 200; i++) {
+    const job = queue.get(id);
+    if (job.status === status) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job '${id}' did not become ${status}`);
+}
+
+describe('TranslationJobQueue', () => {
+  let vaultPath: string;
+  let fileSystem: FileSystemHelper;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'job-queue-'));
+    fileSystem = new FileSystemHelper(vaultPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  it('runs jobs one at a time in the order they were submitted', async () => {
+    const started: string[] = [];
+    const queue = new TranslationJobQueue(fileSystem, async job => {
+      started.push(job.id);
+      return REPORT;
+    });
+
+    const first = await queue.submit({ type: 'batch', request: { targetLanguage: 'de' } });
+    const second = await queue.submit({ type: 'batch', request: { targetLanguage: 'fr' } });
+    await waitFor(queue, second.id, 'completed');
+
+    expect(started).toEqual([first.id, second.id]);
+    expect(queue.get(first.id)).toMatchObject({ status: 'completed', attempts: 1, result: REPORT });
+    expect(queue.list('completed').map(job => job.id)).toEqual([second.id, first.id]);
+  });
+
+  it('cancels queued jobs before they start and running jobs through the signal', async () => {
+    const started: string[] = [];
+    const runner: TranslationJobRunner = async (job, control) => {
+      started.push(job.id);
+      await new Promise(resolve => control.signal?.addEventListener('abort', resolve));
+      throw new Error(`${ErrorCode.CANCELLED}: Translation was cancelled`);
+    };
+    const queue = new TranslationJobQueue(fileSystem, runner);
+
+    const running = await queue.submit({ type: 'batch', request: {} });
+    const queued = await queue.submit({ type: 'batch', request: {} });
+    await waitFor(queue, running.id, 'running');
+
+    expect((await queue.cancel(queued.id)).status).toBe('cancelled');
+    await queue.cancel(running.id);
+
+    expect(await waitFor(queue, running.id, 'cancelled')).toMatchObject({ error: expect.stringContaining('CANCELLED') });
+    expect(started).toEqual([running.id]);
+    await expect(queue.cancel('missing')).rejects.toThrow('JOB_NOT_FOUND');
+  });
+
+  it('resumes unfinished jobs after a restart and fails jobs interrupted too often', async () => {
+    const job = (id: string, status: TranslationJobStatus, attempts: number) => ({
+      id,
+      type: 'batch',
+      request: {},
+      status,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      attempts,
+      progress: { completed: 1, total: 3 }
+    });
+    await fileSystem.writeFile(
+      TRANSLATION_JOBS_PATH,
+      JSON.stringify({
+        version: 1,
+        jobs: [job('queued', 'queued', 0), job('interrupted', 'running', 1), job('crashing', 'running', 2), { id: 'broken' }]
+      })
+    );
+    const queue = new TranslationJobQueue(fileSystem, async () => REPORT);
+
+    expect(await queue.restore()).toEqual({ resumed: ['queued', 'interrupted'], failed: ['crashing'] });
+
+    expect(await waitFor(queue, 'interrupted', 'completed')).toMatchObject({ attempts: 2 });
+    expect(queue.get('crashing').error).toBe('Interrupted by a server restart 2 times');
+    expect(() => queue.get('broken')).toThrow('JOB_NOT_FOUND');
+  });
+});
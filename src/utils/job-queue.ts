@@ -0,0 +1,292 @@
+import { randomUUID } from 'crypto';
+import { FileSystemHelper } from './file-system.js';
+import {
+  TranslationJob,
+  TranslationJobStatus,
+  TranslationControl,
+  ErrorCode
+} from '../types/index.js';
+
+// Obsidianのファイル一覧に表示されないよう隠しフォルダに保存する
+export const TRANSLATION_JOBS_PATH = '.mcp-jobs/jobs.json';
+
+// 保持する終了済みジョブの数（古いものから削除する）
+const MAX_FINISHED_JOBS = 50;
+
+// 実行中にサーバーが停止したジョブを再開する回数の上限（超えた場合は失敗とする）
+const MAX_JOB_ATTEMPTS = 2;
+
+// ジョブの状態
+const JOB_STATUSES: TranslationJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// 進捗をファイルに保存する最短の間隔（ミリ秒）
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+// 登録時に受け付けるジョブ（実行状態はキューが設定する）
+export type TranslationJobInput = Pick<TranslationJob, 'type' | 'request'>;
+
+// ジョブを実行する関数
+export type TranslationJobRunner = (
+  job: TranslationJob,
+  control: TranslationControl
+) => Promise<NonNullable<TranslationJob['result']>>;
+
+/**
+ * 翻訳ジョブをファイルに永続化し、登録順に1件ずつ実行する
+ */
+export class TranslationJobQueue {
+  private fileSystem: FileSystemHelper;
+  private runner: TranslationJobRunner;
+  private jobsPath: string;
+  private jobs: TranslationJob[] = [];
+  private controllers = new Map<string, AbortController>();
+  private processing = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(fileSystem: FileSystemHelper, runner: TranslationJobRunner, jobsPath: string = TRANSLATION_JOBS_PATH) {
+    this.fileSystem = fileSystem;
+    this.runner = runner;
+    this.jobsPath = jobsPath;
+  }
+
+  /**
+   * 保存されたジョブを読み込み、未完了のジョブを再開する
+   * 待機中のジョブはそのまま、実行中だったジョブは最初から実行し直す
+   * （再開の上限を超えたジョブは失敗とする）
+   * @returns 再開したジョブと失敗としたジョブのID
+   */
+  async restore(): Promise<{ resumed: string[]; failed: string[] }> {
+    this.jobs = await this.readJobs();
+    const resumed: string[] = [];
+    const failed: string[] = [];
+
+    for (const job of this.jobs) {
+      if (job.status === 'queued') {
+        resumed.push(job.id);
+      } else if (job.status === 'running') {
+        if (job.attempts >= MAX_JOB_ATTEMPTS) {
+          job.status = 'failed';
+          job.error = `Interrupted by a server restart ${job.attempts} times`;
+          job.finishedAt = new Date().toISOString();
+          failed.push(job.id);
+        } else {
+          job.status = 'queued';
+          job.progress = { completed: 0, total: 0 };
+          resumed.push(job.id);
+        }
+      }
+    }
+
+    await this.save();
+    this.schedule();
+    return { resumed, failed };
+  }
+
+  /**
+   * ジョブを登録する（実行の完了は待たない）
+   * @param input ジョブの種類とリクエスト
+   * @returns 登録されたジョブ
+   */
+  async submit(input: TranslationJobInput): Promise<TranslationJob> {
+    const job = {
+      ...input,
+      id: randomUUID(),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      progress: { completed: 0, total: 0 }
+    } as TranslationJob;
+
+    this.jobs.push(job);
+    this.prune();
+    await this.save();
+    this.schedule();
+    return { ...job };
+  }
+
+  /**
+   * ジョブを取得する
+   * @param id ジョブID
+   * @returns ジョブ
+   */
+  get(id: string): TranslationJob {
+    const job = this.jobs.find(job => job.id === id);
+    if (!job) {
+      throw new Error(`${ErrorCode.JOB_NOT_FOUND}: Translation job '${id}' not found`);
+    }
+    return { ...job };
+  }
+
+  /**
+   * ジョブを新しい順に一覧する
+   * @param status 絞り込む状態（省略時はすべて）
+   * @returns ジョブの配列
+   */
+  list(status?: TranslationJobStatus): TranslationJob[] {
+    return this.jobs
+      .filter(job => !status || job.status === status)
+      .map(job => ({ ...job }))
+      .reverse();
+  }
+
+  /**
+   * ジョブをキャンセルする
+   * 待機中のジョブはすぐに、実行中のジョブは次のチャンクまたはノートの翻訳を始める前に停止する
+   * （キャンセルされたジョブはノートを変更しない。すでに書き込みを終えていた場合は完了として記録する）
+   * @param id ジョブID
+   * @returns キャンセルを要求した後のジョブ
+   */
+  async cancel(id: string): Promise<TranslationJob> {
+    const job = this.jobs.find(job => job.id === id);
+    if (!job) {
+      throw new Error(`${ErrorCode.JOB_NOT_FOUND}: Translation job '${id}' not found`);
+    }
+
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+      await this.save();
+    } else if (job.status === 'running') {
+      this.controllers.get(id)?.abort();
+    }
+    return { ...job };
+  }
+
+  /**
+   * 待機中のジョブの実行を開始する（完了は待たない）
+   */
+  private schedule(): void {
+    this.process().catch(error => {
+      console.error(`Failed to process translation jobs: ${error}`);
+    });
+  }
+
+  /**
+   * 待機中のジョブがなくなるまで1件ずつ実行する
+   */
+  private async process(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      for (let job = this.nextJob(); job; job = this.nextJob()) {
+        await this.run(job);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * 次に実行する待機中のジョブを取得する
+   * @returns ジョブ（ない場合undefined）
+   */
+  private nextJob(): TranslationJob | undefined {
+    return this.jobs.find(job => job.status === 'queued');
+  }
+
+  /**
+   * ジョブを実行し、結果または失敗を記録する
+   * 実行関数が結果を返した場合は、キャンセルの要求が書き込みの後に届いていても完了とする
+   * （バッチ翻訳ではキャンセル後のノートはスキップとして結果に含まれる）
+   * @param job ジョブ
+   */
+  private async run(job: TranslationJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.attempts++;
+    await this.save();
+
+    // 進捗の保存は間隔を空けて行う（最終的な状態は終了時に保存する）
+    let lastProgressSave = Date.now();
+    try {
+      job.result = await this.runner({ ...job }, {
+        signal: controller.signal,
+        onProgress: progress => {
+          job.progress = progress;
+          if (Date.now() - lastProgressSave >= PROGRESS_SAVE_INTERVAL_MS) {
+            lastProgressSave = Date.now();
+            this.save().catch(() => undefined);
+          }
+        }
+      });
+      job.status = 'completed';
+    } catch (error) {
+      job.status = controller.signal.aborted ? 'cancelled' : 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.controllers.delete(job.id);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    this.prune();
+    await this.save().catch(error => {
+      console.error(`Failed to save translation jobs '${this.jobsPath}': ${error}`);
+    });
+  }
+
+  /**
+   * 保持数を超えた古い終了済みジョブを削除する
+   */
+  private prune(): void {
+    const finished = this.jobs.filter(job => !['queued', 'running'].includes(job.status));
+    const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+    this.jobs = this.jobs.filter(job => !excess.has(job));
+  }
+
+  /**
+   * ジョブをファイルに保存する
+   * 同時に呼ばれても書き込みが重ならないよう直列化する
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const data = {
+        version: 1,
+        jobs: this.jobs
+      };
+      await this.fileSystem.writeFile(this.jobsPath, JSON.stringify(data));
+    });
+    return this.saving;
+  }
+
+  /**
+   * ジョブファイルを読み込む
+   * @returns ジョブの配列
+   */
+  private async readJobs(): Promise<TranslationJob[]> {
+    if (!(await this.fileSystem.exists(this.jobsPath))) {
+      return [];
+    }
+
+    try {
+      const data: unknown = JSON.parse(await this.fileSystem.readFile(this.jobsPath));
+      const jobs = typeof data === 'object' && data !== null ? (data as Record<string, unknown>).jobs : null;
+      return Array.isArray(jobs) ? jobs.filter(job => this.isJob(job)) : [];
+    } catch (error) {
+      // 壊れたジョブファイルは空として扱い、次回保存時に作り直す
+      console.warn(`Warning: Failed to load translation jobs '${this.jobsPath}': ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * 読み込んだ値がジョブの形式か判定する
+   * @param value ジョブファイルの値
+   * @returns ジョブの場合true
+   */
+  private isJob(value: unknown): value is TranslationJob {
+    const job = value as Partial<TranslationJob> | null;
+    return typeof job === 'object' && job !== null &&
+      typeof job.id === 'string' &&
+      JOB_STATUSES.includes(job.status as TranslationJobStatus) &&
+      (job.type === 'note' || job.type === 'batch') &&
+      typeof job.request === 'object' && job.request !== null &&
+      typeof job.createdAt === 'string' &&
+      typeof job.attempts === 'number' &&
+      typeof job.progress === 'object' && job.progress !== null;
+  }
+}
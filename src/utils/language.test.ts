@@ -0,0 +1,29 @@
+import { LanguageCode } from './language.js';
+
+describe('LanguageCode', () => {
+  it('derives language codes from language names and codes', () => {
+    expect(LanguageCode.fromTargetLanguage('日本語')).toBe('ja');
+    expect(LanguageCode.fromTargetLanguage('Deutsch')).toBe('de');
+    expect(LanguageCode.fromTargetLanguage('Traditional Chinese')).toBe('zh-tw');
+    expect(LanguageCode.fromTargetLanguage('pt-BR')).toBe('pt-br');
+  });
+
+  it('rejects language names without a known code', () => {
+    expect(() => LanguageCode.fromTargetLanguage('Klingon')).toThrow('UNSUPPORTED_LANGUAGE');
+  });
+
+  it('treats language names and codes of the same language as equal', () => {
+    expect(LanguageCode.isSame('日本語', 'ja')).toBe(true);
+    expect(LanguageCode.isSame('zh', 'zh-tw')).toBe(true);
+    expect(LanguageCode.isSame('Simplified Chinese', 'Traditional Chinese')).toBe(false);
+    expect(LanguageCode.isSame('Klingon', 'klingon')).toBe(true);
+  });
+
+  it('detects the language of a note body without code and links', () => {
+    expect(LanguageCode.detect('これは日本語で書かれたノートです。')).toBe('ja');
+    expect(LanguageCode.detect('This is the note and it is in the vault with the other notes.')).toBe('en');
+    expect(LanguageCode.detect('这是我们的问题，现在还没有开始说。')).toBe('zh-cn');
+    expect(LanguageCode.detect('這是我們的問題，現在還沒有開始說。')).toBe('zh-tw');
+    expect(LanguageCode.detect('```\nconst value = 1;\n```\n短い')).toBeNull();
+  });
+});
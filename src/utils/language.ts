@@ -0,0 +1,194 @@
+import { ErrorCode } from '../types/index.js';
+
+/**
+ * 言語名（英語名・各言語での名称）からISO 639-1の言語コードへの対応表
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+  japanese: 'ja', '日本語': 'ja',
+  english: 'en', '英語': 'en',
+  german: 'de', deutsch: 'de', 'ドイツ語': 'de',
+  french: 'fr', 'français': 'fr', francais: 'fr', 'フランス語': 'fr',
+  spanish: 'es', 'español': 'es', espanol: 'es', 'スペイン語': 'es',
+  italian: 'it', italiano: 'it', 'イタリア語': 'it',
+  portuguese: 'pt', 'português': 'pt', portugues: 'pt', 'ポルトガル語': 'pt',
+  russian: 'ru', 'русский': 'ru', 'ロシア語': 'ru',
+  chinese: 'zh', '中文': 'zh', '中国語': 'zh',
+  'simplified chinese': 'zh-cn', '简体中文': 'zh-cn', '簡体字中国語': 'zh-cn',
+  'traditional chinese': 'zh-tw', '繁體中文': 'zh-tw', '繁体字中国語': 'zh-tw',
+  korean: 'ko', '한국어': 'ko', '韓国語': 'ko',
+  dutch: 'nl', nederlands: 'nl', 'オランダ語': 'nl',
+  polish: 'pl', polski: 'pl', 'ポーランド語': 'pl',
+  turkish: 'tr', 'türkçe': 'tr', 'トルコ語': 'tr',
+  vietnamese: 'vi', 'tiếng việt': 'vi', 'ベトナム語': 'vi',
+  thai: 'th', 'ไทย': 'th', 'タイ語': 'th',
+  indonesian: 'id', 'bahasa indonesia': 'id', 'インドネシア語': 'id',
+  arabic: 'ar', 'العربية': 'ar', 'アラビア語': 'ar',
+  hindi: 'hi', 'हिन्दी': 'hi', 'ヒンディー語': 'hi',
+  ukrainian: 'uk', 'українська': 'uk', 'ウクライナ語': 'uk',
+  swedish: 'sv', svenska: 'sv', 'スウェーデン語': 'sv',
+};
+
+/**
+ * ラテン文字の言語を判別するための頻出語
+ */
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'with', 'this', 'you', 'are', 'be', 'on'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'ein', 'eine', 'zu', 'den', 'von', 'sie', 'auf', 'ich'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'un', 'une', 'du', 'que', 'pour', 'dans', 'pas', 'qui', 'sur'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'que', 'de', 'en', 'un', 'una', 'por', 'con', 'para', 'no'],
+  it: ['il', 'lo', 'la', 'gli', 'e', 'che', 'di', 'un', 'una', 'per', 'non', 'con', 'sono', 'della', 'è'],
+  pt: ['o', 'os', 'as', 'e', 'que', 'de', 'em', 'um', 'uma', 'para', 'com', 'não', 'do', 'da', 'é'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'te', 'met', 'voor', 'zijn', 'ik', 'je'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'jest', 'że', 'z', 'do', 'to', 'jak', 'od', 'po', 'ale', 'tak'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'är', 'på', 'för', 'med', 'inte', 'av', 'till', 'den', 'jag', 'har'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'ne', 'gibi', 'daha', 'olarak', 'var', 'ama', 'değil'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'dari', 'dalam', 'akan', 'pada', 'juga', 'ke', 'ada'],
+  vi: ['và', 'của', 'là', 'có', 'không', 'được', 'cho', 'một', 'những', 'với', 'các', 'trong', 'này', 'người', 'đã'],
+};
+
+/**
+ * 簡体字と繁体字を判別するための、どちらか一方でのみ使われる頻出字（同じ位置の字が対応する）
+ */
+const SIMPLIFIED_CHARS = '们这说为国个来时会对学发经过还进样实现点开关问题头东车长见马门电书么应该从体给让语';
+const TRADITIONAL_CHARS = '們這說為國個來時會對學發經過還進樣實現點開關問題頭東車長見馬門電書麼應該從體給讓語';
+
+// 判定に必要な最小の文字数
+const MIN_DETECTION_LETTERS = 10;
+
+export class LanguageCode {
+  /**
+   * 翻訳先言語の指定から言語コードを求める
+   * 言語コード（例: de, pt-BR）がそのまま指定された場合は小文字にして返す
+   * @param targetLanguage 翻訳先言語（言語名または言語コード）
+   * @returns 言語コード
+   * @throws 対応していない言語名の場合
+   */
+  static fromTargetLanguage(targetLanguage: string): string {
+    const normalized = targetLanguage.trim().toLowerCase();
+
+    if (LANGUAGE_CODES[normalized]) {
+      return LANGUAGE_CODES[normalized];
+    }
+    if (/^[a-z]{2,3}(-[a-z0-9]{2,4})?$/.test(normalized)) {
+      return normalized;
+    }
+
+    throw new Error(
+      `${ErrorCode.UNSUPPORTED_LANGUAGE}: Cannot derive a language code from '${targetLanguage}'. Specify an ISO 639-1 code such as 'de'`
+    );
+  }
+
+  /**
+   * 翻訳先言語の指定を比較用に正規化する
+   * 言語コードを求められない場合は小文字にした言語名を返す
+   * @param targetLanguage 翻訳先言語（言語名または言語コード）
+   * @returns 言語コードまたは言語名
+   */
+  static normalize(targetLanguage: string): string {
+    try {
+      return this.fromTargetLanguage(targetLanguage);
+    } catch {
+      return targetLanguage.trim().toLowerCase();
+    }
+  }
+
+  /**
+   * 2つの言語指定が同じ言語を表すか判定する
+   * 両方に地域の指定がある場合（zh-cn と zh-tw など）は地域も比較し、
+   * 片方にしかない場合（zh と zh-tw など）は主言語のみを比較する
+   * @param a 言語名または言語コード
+   * @param b 言語名または言語コード
+   * @returns 同じ言語の場合true
+   */
+  static isSame(a: string, b: string): boolean {
+    const codeA = this.normalize(a);
+    const codeB = this.normalize(b);
+    if (codeA === codeB) {
+      return true;
+    }
+    return (!codeA.includes('-') || !codeB.includes('-')) && codeA.split('-')[0] === codeB.split('-')[0];
+  }
+
+  /**
+   * 本文の文字種と頻出語から言語を推定する（ネットワークは使わない）
+   * コード・URL・リンク先は判定から除外する
+   * @param content Markdown本文
+   * @returns 言語コード（判定できない場合null）
+   */
+  static detect(content: string): string | null {
+    const text = content
+      .replace(/(`{3,}|~{3,})[\s\S]*?\1/g, ' ')
+      .replace(/`[^`\n]*`/g, ' ')
+      .replace(/\]\([^)\n]*\)/g, ']')
+      .replace(/\[\[[^\]|\n]*\|?/g, ' ')
+      .replace(/https?:\/\/\S+/g, ' ');
+
+    const count = (pattern: RegExp) => (text.match(pattern) ?? []).length;
+    const scripts: Record<string, number> = {
+      kana: count(/[\u3040-\u30ff]/g),
+      han: count(/[\u4e00-\u9fff]/g),
+      hangul: count(/[\uac00-\ud7af\u1100-\u11ff]/g),
+      cyrillic: count(/[\u0400-\u04ff]/g),
+      arabic: count(/[\u0600-\u06ff]/g),
+      devanagari: count(/[\u0900-\u097f]/g),
+      thai: count(/[\u0e00-\u0e7f]/g),
+      latin: count(/[A-Za-z\u00c0-\u024f\u1e00-\u1eff]/g),
+    };
+    const total = Object.values(scripts).reduce((sum, n) => sum + n, 0);
+    if (total < MIN_DETECTION_LETTERS) {
+      return null;
+    }
+
+    // 漢字はかなと併用されていれば日本語とみなす
+    if (scripts.kana > 0 && scripts.kana + scripts.han >= total / 2) {
+      return 'ja';
+    }
+    const [script] = Object.entries(scripts).sort((x, y) => y[1] - x[1])[0];
+    switch (script) {
+      case 'han': return this.detectChineseVariant(text);
+      case 'hangul': return 'ko';
+      case 'cyrillic': return /[ґєії]/i.test(text) ? 'uk' : 'ru';
+      case 'arabic': return 'ar';
+      case 'devanagari': return 'hi';
+      case 'thai': return 'th';
+      case 'latin': return this.detectLatin(text);
+      default: return null;
+    }
+  }
+
+  /**
+   * 中国語の本文が簡体字と繁体字のどちらで書かれているかを推定する
+   * @param text 本文
+   * @returns zh-cn / zh-tw（判別できない場合は zh）
+   */
+  private static detectChineseVariant(text: string): string {
+    const count = (chars: string) => [...text].filter(char => chars.includes(char)).length;
+    const simplified = count(SIMPLIFIED_CHARS);
+    const traditional = count(TRADITIONAL_CHARS);
+    if (simplified === traditional) {
+      return 'zh';
+    }
+    return simplified > traditional ? 'zh-cn' : 'zh-tw';
+  }
+
+  /**
+   * ラテン文字の本文の言語を頻出語の出現数から推定する
+   * @param text 本文
+   * @returns 言語コード（判定できない場合null）
+   */
+  private static detectLatin(text: string): string | null {
+    const words = text.toLowerCase().match(/[a-z\u00c0-\u024f\u1e00-\u1eff]+/g) ?? [];
+    const scores = Object.entries(LATIN_STOPWORDS).map(([code, stopwords]): [string, number] => {
+      const set = new Set(stopwords);
+      return [code, words.filter(word => set.has(word)).length];
+    });
+    scores.sort((x, y) => y[1] - x[1]);
+
+    // 頻出語が少ない、または上位2言語が拮抗する場合は判定しない
+    const [[code, best], [, second]] = scores;
+    if (best < 3 || best < second * 1.5) {
+      return null;
+    }
+    return code;
+  }
+}
@@ -0,0 +1,44 @@
+import { LinkRewriter } from './link-rewriter.js';
+
+describe('LinkRewriter', () => {
+  const files = ['notes/A.md', 'notes/B.md', 'other/C.md', 'img/pic.png'];
+
+  it('rewrites wikilinks and relative Markdown links to a moved note', () => {
+    const moves = new Map([['notes/A.md', 'archive/A.md']]);
+    const content = 'See [[notes/A#Intro|intro]], ![[notes/A]] and [a](A.md).';
+
+    const result = LinkRewriter.rewrite(content, 'notes/B.md', 'notes/B.md', moves, files);
+
+    expect(result.content).toBe('See [[archive/A#Intro|intro]], ![[archive/A]] and [a](../archive/A.md).');
+    expect(result.rewritten).toBe(3);
+  });
+
+  it('keeps file-name links that still resolve uniquely', () => {
+    const moves = new Map([['notes/A.md', 'archive/A.md']]);
+
+    const result = LinkRewriter.rewrite('[[A]]', 'other/C.md', 'other/C.md', moves, files);
+
+    expect(result).toEqual({ content: '[[A]]', rewritten: 0 });
+  });
+
+  it('rewrites relative links of the moved note itself', () => {
+    const moves = new Map([['notes/A.md', 'archive/deep/A.md']]);
+
+    const result = LinkRewriter.rewrite('![pic](../img/pic.png) [b](B.md)', 'notes/A.md', 'archive/deep/A.md', moves, files);
+
+    expect(result.content).toBe('![pic](../../img/pic.png) [b](../../notes/B.md)');
+  });
+
+  it('keeps links to the vault root absolute and ignores code', () => {
+    const moves = new Map([['notes/A.md', 'archive/A.md']]);
+    const content = '[r](/notes/A.md)\n\n```\n[[notes/A]]\n```';
+
+    const result = LinkRewriter.rewrite(content, 'other/C.md', 'other/C.md', moves, files);
+
+    expect(result.content).toBe('[r](/archive/A.md)\n\n```\n[[notes/A]]\n```');
+  });
+
+  it('counts links to a note', () => {
+    expect(LinkRewriter.countLinksTo('[[A]] [x](../notes/A.md) [[B]]', 'other/C.md', 'notes/A.md', files)).toBe(2);
+  });
+});
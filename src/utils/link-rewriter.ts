@@ -0,0 +1,159 @@
+import { posix } from 'path';
+import { WikiLinks } from './wikilinks.js';
+
+// スキームを持つリンク（http:, obsidian: など）
+const EXTERNAL_LINK_PATTERN = /^[A-Za-z][A-Za-z0-9+.-]*:/;
+
+export class LinkRewriter {
+  /**
+   * ノートの移動に合わせて、ノート内のWikiLink・埋め込み・Markdown形式のリンクを書き換える
+   * 移動後も同じファイルを指すリンクは変更しない（Frontmatter内のWikiLinkも対象とする）
+   * @param content ノートの内容
+   * @param fromPath 移動前のリンク元のパス
+   * @param newFromPath 移動後のリンク元のパス（移動しない場合は fromPath と同じ）
+   * @param moves 移動前のパスから移動後のパスへの対応
+   * @param files 移動前のVault内のファイル一覧
+   * @returns 書き換えた内容と、書き換えたリンク数
+   */
+  static rewrite(
+    content: string,
+    fromPath: string,
+    newFromPath: string,
+    moves: Map<string, string>,
+    files: string[]
+  ): { content: string; rewritten: number } {
+    const newFiles = files.map(file => moves.get(file) ?? file);
+    const notes = files.filter(file => file.endsWith('.md'));
+    const newNotes = newFiles.filter(file => file.endsWith('.md'));
+    let rewritten = 0;
+
+    const withWikiLinks = WikiLinks.replace(content, link => {
+      const target = WikiLinks.resolve(link.target, fromPath, notes);
+      if (!target) {
+        return null;
+      }
+      const newTarget = moves.get(target) ?? target;
+      if (WikiLinks.resolve(link.target, newFromPath, newNotes) === newTarget) {
+        return null;
+      }
+
+      // ファイル名のみのリンクは、移動後もファイル名で一意に解決できればファイル名のままにする
+      const name = posix.basename(newTarget, '.md');
+      const written = !link.target.includes('/') && WikiLinks.resolve(name, newFromPath, newNotes) === newTarget
+        ? name
+        : newTarget.replace(/\.md$/, '');
+      rewritten++;
+      return WikiLinks.format({ ...link, target: link.target.trim().endsWith('.md') ? `${written}.md` : written });
+    });
+
+    const fileSet = new Set(files);
+    const newFileSet = new Set(newFiles);
+    const withMarkdownLinks = WikiLinks.replaceMarkdownLinks(withWikiLinks, link => {
+      const href = this.parseHref(link.href);
+      const resolved = href ? this.resolveHref(href.path, fromPath, fileSet) : null;
+      if (!href || !resolved) {
+        return null;
+      }
+      const newTarget = moves.get(resolved.target) ?? resolved.target;
+      if (this.resolveHref(href.path, newFromPath, newFileSet)?.target === newTarget) {
+        return null;
+      }
+
+      // Vaultルートからのパスはそのまま、相対パスは移動後のリンク元からの相対パスにする
+      let path = resolved.fromRoot
+        ? `${href.path.startsWith('/') ? '/' : ''}${newTarget}`
+        : posix.relative(posix.dirname(newFromPath), newTarget);
+      if (!/\.md$/.test(href.path)) {
+        path = path.replace(/\.md$/, '');
+      }
+      rewritten++;
+      return WikiLinks.formatMarkdownLink({
+        ...link,
+        href: href.angle ? `<${path}${href.suffix}>` : `${path.replace(/ /g, '%20')}${href.suffix}`
+      });
+    });
+
+    return { content: withMarkdownLinks, rewritten };
+  }
+
+  /**
+   * ノートから指定したファイルへのリンクの数を数える
+   * @param content ノートの内容
+   * @param fromPath リンク元のパス
+   * @param target リンク先のパス
+   * @param files Vault内のファイル一覧
+   * @returns リンクの数
+   */
+  static countLinksTo(content: string, fromPath: string, target: string, files: string[]): number {
+    const notes = files.filter(file => file.endsWith('.md'));
+    const fileSet = new Set(files);
+    let count = 0;
+
+    WikiLinks.replace(content, link => {
+      if (WikiLinks.resolve(link.target, fromPath, notes) === target) {
+        count++;
+      }
+      return null;
+    });
+    WikiLinks.replaceMarkdownLinks(content, link => {
+      const href = this.parseHref(link.href);
+      if (href && this.resolveHref(href.path, fromPath, fileSet)?.target === target) {
+        count++;
+      }
+      return null;
+    });
+    return count;
+  }
+
+  /**
+   * Markdown形式のリンク先をパスと見出し・ブロックの指定に分ける
+   * @param href リンク先
+   * @returns パス（デコード済み）と #以降、<...> で囲まれていたか（外部リンク・同じノート内へのリンクはnull）
+   */
+  private static parseHref(href: string): { path: string; suffix: string; angle: boolean } | null {
+    const angle = href.startsWith('<') && href.endsWith('>');
+    const value = angle ? href.slice(1, -1) : href;
+    if (EXTERNAL_LINK_PATTERN.test(value) || value.startsWith('#')) {
+      return null;
+    }
+
+    const hashIndex = value.indexOf('#');
+    const rawPath = hashIndex === -1 ? value : value.slice(0, hashIndex);
+    let path = rawPath;
+    try {
+      path = decodeURIComponent(rawPath);
+    } catch {
+      // 不正なエスケープはそのまま扱う
+    }
+    return { path, suffix: hashIndex === -1 ? '' : value.slice(hashIndex), angle };
+  }
+
+  /**
+   * Markdown形式のリンク先をVault内のファイルに解決する
+   * リンク元のフォルダからの相対パス、次にVaultルートからのパスとして探す（拡張子 .md は省略可）
+   * @param path リンク先のパス
+   * @param fromPath リンク元のパス
+   * @param files Vault内のファイル
+   * @returns ファイルのパスと、Vaultルートからのパスとして解決したか（見つからない場合null）
+   */
+  private static resolveHref(
+    path: string,
+    fromPath: string,
+    files: Set<string>
+  ): { target: string; fromRoot: boolean } | null {
+    const candidates = (base: string) => {
+      const normalized = posix.normalize(base);
+      return normalized.startsWith('../') ? [] : [normalized, `${normalized}.md`];
+    };
+
+    // / で始まるパスはVaultルートからのパスとしてのみ扱う
+    const relative = path.startsWith('/')
+      ? undefined
+      : candidates(posix.join(posix.dirname(fromPath), path)).find(file => files.has(file));
+    if (relative) {
+      return { target: relative, fromRoot: false };
+    }
+    const fromRoot = candidates(path.replace(/^\/+/, '')).find(file => files.has(file));
+    return fromRoot ? { target: fromRoot, fromRoot: true } : null;
+  }
+}
@@ -0,0 +1,62 @@
+import { MarkdownChunker } from './markdown-chunker.js';
+
+describe('MarkdownChunker', () => {
+  it('keeps code fences, comments and math blocks with blank lines in one block', () => {
+    const blocks = MarkdownChunker.splitBlocks(
+      ['# Title', '', '```', 'a', '', 'b', '```', '', '%%', 'note', '', 'more', '%%', '', '$$', 'x', '', 'y', '$$', '', 'Text'].join('\n')
+    );
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'code', 'code', 'code', 'paragraph']);
+    expect(blocks[1].text).toBe('```\na\n\nb\n```');
+    expect(blocks[2].text).toBe('%%\nnote\n\nmore\n%%');
+    expect(blocks[3].text).toBe('$$\nx\n\ny\n$$');
+  });
+
+  it('detects tables by their delimiter row, with or without a leading pipe', () => {
+    const blocks = MarkdownChunker.splitBlocks(
+      ['Name | Value', '--- | :---:', 'a | 1', 'b | 2', '', '| x |', '| - |', '| y |', '', 'a | b is not a table'].join('\n')
+    );
+
+    expect(blocks.map(block => block.type)).toEqual(['table', 'table', 'paragraph']);
+    expect(blocks[0].text).toBe('Name | Value\n--- | :---:\na | 1\nb | 2');
+  });
+
+  it('records the blank lines between blocks as separators', () => {
+    const blocks = MarkdownChunker.splitBlocks('# Title\nText\n\n\n\nMore');
+
+    expect(blocks.map(block => block.separator)).toEqual(['\n', '\n\n\n\n', '\n']);
+  });
+
+  it('groups blocks by size and restores the original text when joining', () => {
+    const body = '# One\nFirst paragraph.\n\n\n# Two\n\n    indented code\n\n- item\n  continued\n';
+    const blocks = MarkdownChunker.splitBlocks(body);
+
+    const groups = MarkdownChunker.groupBlocks(blocks, 30);
+
+    expect(groups.length).toBeGreaterThan(1);
+    expect(groups.flat()).toEqual(blocks);
+    expect(MarkdownChunker.join(blocks)).toBe(body);
+  });
+
+  it('keeps indentation and skips empty chunks when joining', () => {
+    expect(
+      MarkdownChunker.join([
+        { text: '\n    indented code\n', separator: '\n\n' },
+        { text: '', separator: '\n\n\n' },
+        { text: '- item\n  continued\n\n', separator: '\n' }
+      ])
+    ).toBe('    indented code\n\n\n- item\n  continued\n');
+  });
+
+  it('splits lists into items and keeps continuation lines with their item', () => {
+    const segments = MarkdownChunker.splitSegments('Intro\n- one\n  more\n- [x] two\n\nAfter');
+
+    expect(segments.map(segment => [segment.type, segment.text])).toEqual([
+      ['paragraph', 'Intro'],
+      ['listItem', '- one\n  more'],
+      ['listItem', '- [x] two'],
+      ['paragraph', 'After']
+    ]);
+    expect(MarkdownChunker.join(segments)).toBe('Intro\n- one\n  more\n- [x] two\n\nAfter\n');
+  });
+});
@@ -0,0 +1,181 @@
+import { MarkdownBlock, MarkdownChunk } from '../types/index.js';
+import { MarkdownSyntax, LIST_ITEM_PATTERN } from './markdown-syntax.js';
+
+export class MarkdownChunker {
+  /**
+   * Markdown本文をブロック単位に分割する
+   * コードブロック・テーブル・Obsidianコメント・数式ブロックは途中で分割しない
+   * （コメントと数式ブロックは翻訳しないためコードブロックとして扱う）
+   * @param content Markdown本文
+   * @returns ブロックの配列
+   */
+  static splitBlocks(content: string): MarkdownBlock[] {
+    const lines = content.split('\n');
+    const fences = MarkdownSyntax.scanFences(lines);
+    const blocks: Array<MarkdownBlock & { start: number; end: number }> = [];
+    let paragraphStart: number | null = null;
+
+    const pushBlock = (type: MarkdownBlock['type'], start: number, end: number) => {
+      blocks.push({ type, text: lines.slice(start, end).join('\n'), separator: '\n', start, end });
+    };
+    const flushParagraph = (end: number) => {
+      if (paragraphStart !== null) {
+        pushBlock('paragraph', paragraphStart, end);
+        paragraphStart = null;
+      }
+    };
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+      const start = i;
+
+      // フェンスコードブロック（閉じフェンスまでを1ブロックとする）
+      if (fences[i] === 'open') {
+        flushParagraph(i);
+        i++;
+        while (i < lines.length && fences[i] === 'code') {
+          i++;
+        }
+        if (fences[i] === 'close') {
+          i++;
+        }
+        pushBlock('code', start, i);
+        continue;
+      }
+
+      // 空行を含みうるObsidianコメント・数式ブロック（閉じる %% / $$ までを1ブロックとする）
+      const delimiter = line.match(/^\s*(%%|\$\$)/)?.[1];
+      if (delimiter && line.split(delimiter).length % 2 === 0) {
+        flushParagraph(i);
+        i++;
+        while (i < lines.length && !lines[i].includes(delimiter)) {
+          i++;
+        }
+        i = Math.min(i + 1, lines.length);
+        pushBlock('code', start, i);
+        continue;
+      }
+
+      // テーブル（区切り行を持つヘッダー行から、| を含む行が続くまでを1ブロックとする）
+      if (line.includes('|') && i + 1 < lines.length && MarkdownSyntax.isTableDelimiter(lines[i + 1])) {
+        flushParagraph(i);
+        i += 2;
+        while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+          i++;
+        }
+        pushBlock('table', start, i);
+        continue;
+      }
+
+      if (/^#{1,6}\s/.test(line)) {
+        flushParagraph(i);
+        pushBlock('heading', i, i + 1);
+      } else if (!line.trim()) {
+        flushParagraph(i);
+      } else if (paragraphStart === null) {
+        paragraphStart = i;
+      }
+      i++;
+    }
+    flushParagraph(lines.length);
+
+    // ブロックの間の空行の数を区切りとして記録する
+    return blocks.map(({ start, end, ...block }, index) => {
+      const next = blocks[index + 1];
+      return next ? { ...block, separator: '\n'.repeat(next.start - end + 1) } : block;
+    });
+  }
+
+  /**
+   * Markdown本文をブロック単位に分割し、さらにリストを項目ごとに分割する
+   * 対訳表示など、リスト項目単位で原文と訳文を対応付ける場合に使う
+   * @param content Markdown本文
+   * @returns ブロックの配列
+   */
+  static splitSegments(content: string): MarkdownBlock[] {
+    const segments: MarkdownBlock[] = [];
+
+    for (const block of this.splitBlocks(content)) {
+      if (block.type !== 'paragraph') {
+        segments.push(block);
+        continue;
+      }
+
+      // 項目の間は改行のみで区切り、最後の項目に段落の区切りを引き継ぐ
+      const start = segments.length;
+      for (const line of block.text.split('\n')) {
+        const current = segments.length > start ? segments[segments.length - 1] : null;
+        if (LIST_ITEM_PATTERN.test(line)) {
+          segments.push({ type: 'listItem', text: line, separator: '\n' });
+        } else if (current) {
+          // 継続行は直前の項目（または段落）に含める
+          current.text += '\n' + line;
+        } else {
+          segments.push({ type: 'paragraph', text: line, separator: '\n' });
+        }
+      }
+      segments[segments.length - 1].separator = block.separator;
+    }
+
+    return segments;
+  }
+
+  /**
+   * 連続するブロックを最大文字数以内のグループにまとめる
+   * @param blocks ブロックの配列
+   * @param maxChars 1グループあたりの最大文字数の目安
+   * @returns ブロックのグループの配列（元の順序を保持）
+   */
+  static groupBlocks<T extends MarkdownBlock>(blocks: T[], maxChars: number): T[][] {
+    const groups: T[][] = [];
+    let current: T[] = [];
+    let currentLength = 0;
+
+    for (const block of blocks) {
+      const blockLength = block.text.length + 2;
+
+      // 上限を超える場合、または十分な長さがあるときは見出しの前で区切る
+      if (
+        current.length > 0 &&
+        (currentLength + blockLength > maxChars ||
+          (block.type === 'heading' && currentLength >= maxChars / 2))
+      ) {
+        groups.push(current);
+        current = [];
+        currentLength = 0;
+      }
+
+      current.push(block);
+      currentLength += blockLength;
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    return groups;
+  }
+
+  /**
+   * チャンクを元の順序で結合する
+   * インデントを保つため前後の改行のみを取り除き、チャンクの間は原文の区切り（空行の数）で結合する
+   * 空のチャンクは除き、その区切りは直前のチャンクの区切りとして扱う
+   * @param chunks チャンクの配列
+   * @returns 結合されたMarkdown本文
+   */
+  static join(chunks: MarkdownChunk[]): string {
+    let result = '';
+    let separator = '';
+
+    for (const chunk of chunks) {
+      const text = chunk.text.replace(/^\n+|\n+$/g, '');
+      if (text.trim()) {
+        result += separator + text;
+      }
+      if (result) {
+        separator = chunk.separator;
+      }
+    }
+    return result + '\n';
+  }
+}
@@ -0,0 +1,39 @@
+import { MarkdownProtector } from './markdown-protector.js';
+
+describe('MarkdownProtector', () => {
+  it('restores every protected element', () => {
+    const content = 'Use `npm test`, see [[Note]], ![[image.png|300]], [link](https://example.com) and <br> ^id';
+    const { content: protectedContent, placeholders } = MarkdownProtector.protect(content);
+
+    expect(protectedContent).not.toContain('npm test');
+    expect(protectedContent).not.toContain('https://example.com');
+    expect(MarkdownProtector.restore(protectedContent, placeholders)).toBe(content);
+  });
+
+  it('protects HTML tags but not comparisons in prose', () => {
+    const { content } = MarkdownProtector.protect(
+      'If a<b and c>d, use <span class="note">this</span>, <details open> and <img src=x.png/>.'
+    );
+
+    expect(content).toContain('a<b and c>d');
+    expect(content).not.toMatch(/<\/?(span|details|img)/);
+    expect(content).toContain('this');
+  });
+
+  it('leaves the alias of a wikilink to be translated', () => {
+    const { content, placeholders } = MarkdownProtector.protect('See [[Other note#Setup|the setup]].');
+
+    expect(content).toMatch(/^See ⟦P\d+⟧the setup⟦P\d+⟧\.$/);
+    expect(MarkdownProtector.restore(content.replace('the setup', 'die Einrichtung'), placeholders)).toBe(
+      'See [[Other note#Setup|die Einrichtung]].'
+    );
+  });
+
+  it('rejects a translation that dropped a placeholder', () => {
+    const { content, placeholders } = MarkdownProtector.protect('Run `build` now');
+
+    expect(() => MarkdownProtector.verify(content.replace(/⟦P\d+⟧/, ''), placeholders)).toThrow(
+      'PLACEHOLDER_MISMATCH'
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { ProtectedContent, ErrorCode } from '../types/index.js';
+
+/**
+ * HTMLタグの属性（name="value" の形式、または値を持たない論理属性）
+ * 値のない語を属性として認めると「a<b and c>d」のような文章もタグとみなすため、論理属性は既知の名前に限る
+ */
+const HTML_ATTRIBUTE =
+  String.raw`\s+(?:[A-Za-z_:][\w:.-]*\s*=\s*(?:"[^"\n]*"|'[^'\n]*'|[^\s"'=<>\`]+)` +
+  String.raw`|(?:open|checked|disabled|hidden|selected|readonly|required|multiple|controls|autoplay|loop|muted|allowfullscreen|reversed)(?=[\s/>]))`;
+
+/**
+ * 翻訳対象外のMarkdown要素と、その検出パターン
+ * 上から順に置換するため、内側に他の要素を含みうるものを先に並べる
+ * 名前付きグループ text がある場合はその部分を翻訳対象として残し、前後（before / after）のみを保護する
+ */
+const PROTECTION_PATTERNS: RegExp[] = [
+  /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?^[ \t]*\1[ \t]*$/gm, // フェンスコードブロック
+  /`[^`\n]+`/g,                                             // インラインコード
+  /%%[\s\S]*?%%/g,                                          // Obsidianコメント
+  /\$\$[\s\S]+?\$\$/g,                                      // 数式ブロック
+  /\$(?=\S)[^$\n]+?(?<=\S)\$(?!\d)/g,                       // インライン数式
+  /!\[\[[^\]\n]+\]\]/g,                                     // 埋め込み
+  /(?<before>\[\[[^\]|\n]+\|)(?<text>[^\]\n]+)(?<after>\]\])/g, // 表示名付きのWikiLink（表示名は翻訳する）
+  /\[\[[^\]\n]+\]\]/g,                                      // WikiLink
+  /\[\^[^\]\s]+\]:?/g,                                      // 脚注
+  /(?<=\])\([^)\s]+(?:\s+"[^"]*")?\)/g,                     // MarkdownリンクのURL
+  new RegExp(`<\\/?[A-Za-z][\\w-]*(?:${HTML_ATTRIBUTE})*\\s*\\/?>`, 'g'), // HTMLタグ
+  /(?<=^|\s)\^[A-Za-z0-9-]+$/gm,                            // ブロックID
+];
+
+const PLACEHOLDER_PATTERN = /⟦P\d+⟧/g;
+
+export class MarkdownProtector {
+  /**
+   * 翻訳対象外の要素をプレースホルダーに置き換える（翻訳前処理）
+   * @param content コンテンツ
+   * @returns 保護されたコンテンツとプレースホルダーのマップ
+   */
+  static protect(content: string): ProtectedContent {
+    const placeholders = new Map<string, string>();
+    let counter = 0;
+    let protectedContent = content;
+
+    const toPlaceholder = (original: string): string => {
+      const placeholder = `⟦P${counter++}⟧`;
+      placeholders.set(placeholder, original);
+      return placeholder;
+    };
+
+    for (const pattern of PROTECTION_PATTERNS) {
+      protectedContent = protectedContent.replace(pattern, (match, ...args) => {
+        const groups: Record<string, string> | undefined = args[args.length - 1];
+        if (typeof groups === 'object' && groups?.text !== undefined) {
+          return toPlaceholder(groups.before) + groups.text + toPlaceholder(groups.after);
+        }
+        return toPlaceholder(match);
+      });
+    }
+
+    return { content: protectedContent, placeholders };
+  }
+
+  /**
+   * 翻訳結果のプレースホルダーを検証する
+   * 欠落・重複・未知のプレースホルダーがあればエラーとする
+   * @param translated 翻訳されたコンテンツ
+   * @param placeholders プレースホルダーのマップ
+   * @throws プレースホルダーが一致しない場合
+   */
+  static verify(translated: string, placeholders: Map<string, string>): void {
+    const counts = new Map<string, number>();
+    for (const found of translated.match(PLACEHOLDER_PATTERN) || []) {
+      counts.set(found, (counts.get(found) || 0) + 1);
+    }
+
+    // 他の保護要素の内側にあるプレースホルダーは翻訳結果に現れない
+    const nested = new Set<string>();
+    for (const original of placeholders.values()) {
+      for (const inner of original.match(PLACEHOLDER_PATTERN) || []) {
+        nested.add(inner);
+      }
+    }
+
+    const missing = [...placeholders.keys()].filter(p => !nested.has(p) && !counts.has(p));
+    const duplicated = [...counts.entries()].filter(([, n]) => n > 1).map(([p]) => p);
+    const unknown = [...counts.keys()].filter(p => !placeholders.has(p) || nested.has(p));
+
+    if (missing.length > 0 || duplicated.length > 0 || unknown.length > 0) {
+      const problems = [
+        missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+        duplicated.length > 0 ? `duplicated ${duplicated.join(', ')}` : '',
+        unknown.length > 0 ? `unknown ${unknown.join(', ')}` : '',
+      ].filter(Boolean);
+      throw new Error(
+        `${ErrorCode.PLACEHOLDER_MISMATCH}: Translation did not preserve protected Markdown (${problems.join('; ')})`
+      );
+    }
+  }
+
+  /**
+   * プレースホルダーを元の要素に戻す（翻訳後処理）
+   * @param content 翻訳されたコンテンツ
+   * @param placeholders プレースホルダーのマップ
+   * @returns 復元されたコンテンツ
+   */
+  static restore(content: string, placeholders: Map<string, string>): string {
+    // 保護した要素自体が先に保護された要素を含む場合があるため再帰的に戻す
+    return content.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+      const original = placeholders.get(placeholder);
+      return original === undefined ? placeholder : this.restore(original, placeholders);
+    });
+  }
+}
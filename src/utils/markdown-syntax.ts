@@ -0,0 +1,44 @@
+import { FenceLine } from '../types/index.js';
+
+// リスト項目（箇条書き・番号付き・タスク）の行頭（インデント・記号・チェックボックスとその状態）
+export const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(\[([ xX])\]\s+)?/;
+
+export class MarkdownSyntax {
+  /**
+   * 各行がフェンスコードブロックのどの部分にあたるかを判定する
+   * 閉じフェンスは開きフェンスと同じ記号で同じ長さ以上のものとし、閉じていない場合は末尾までをコードとする
+   * @param lines Markdownの行
+   * @returns 行ごとの種類（開きフェンス・コード・閉じフェンス・コードの外側）
+   */
+  static scanFences(lines: string[]): FenceLine[] {
+    let fence: string | null = null;
+
+    return lines.map(line => {
+      if (fence) {
+        const closing = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+        if (closing && closing[1][0] === fence[0] && closing[1].length >= fence.length) {
+          fence = null;
+          return 'close';
+        }
+        return 'code';
+      }
+
+      const opening = line.match(/^\s*(`{3,}|~{3,})/);
+      if (opening) {
+        fence = opening[1];
+        return 'open';
+      }
+      return 'text';
+    });
+  }
+
+  /**
+   * テーブルの区切り行（| --- | :---: | など）か判定する
+   * 先頭と末尾の | は省略できる
+   * @param line 行
+   * @returns 区切り行の場合true
+   */
+  static isTableDelimiter(line: string): boolean {
+    return line.includes('|') && /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line);
+  }
+}
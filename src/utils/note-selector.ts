@@ -0,0 +1,61 @@
+import matter from 'gray-matter';
+import { FileSystemHelper } from './file-system.js';
+import { ObsidianUrlParser } from './obsidian-url.js';
+import { NoteSelection } from '../types/index.js';
+
+export class NoteSelector {
+  /**
+   * フォルダ・タグ・検索クエリでノートを選択する
+   * 複数の条件を指定した場合はすべてを満たすノートを選択する（検索クエリが空の場合はフォルダ内のすべてのノート）
+   * @param fileSystem ファイルシステム
+   * @param selection 選択の条件
+   * @returns パス順に並べたノートのパスの配列（maxNotes 件まで）
+   */
+  static async select(fileSystem: FileSystemHelper, selection: NoteSelection): Promise<string[]> {
+    const folder = selection.folder || '';
+    if (folder) {
+      ObsidianUrlParser.validatePath(folder);
+    }
+
+    const candidates = (await fileSystem.searchFiles(selection.query || '', folder)).sort();
+    const tags = this.normalizeTags(selection.tags);
+
+    const selected: string[] = [];
+    for (const path of candidates) {
+      if (tags.length > 0) {
+        const { data: frontmatter } = matter(await fileSystem.readFile(path));
+        if (!this.hasAnyTag(this.normalizeTags(frontmatter.tags), tags)) {
+          continue;
+        }
+      }
+      selected.push(path);
+    }
+
+    return selection.maxNotes ? selected.slice(0, selection.maxNotes) : selected;
+  }
+
+  /**
+   * タグの指定を比較用に正規化する
+   * 配列のほか、カンマ・空白区切りの文字列にも対応し、先頭の # を除いて小文字にする
+   * @param value タグ（Frontmatterの tags またはリクエストの tags）
+   * @returns 正規化したタグの配列
+   */
+  static normalizeTags(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+    return items
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim().replace(/^#/, '').toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * ノートのタグが指定したタグのいずれかに一致するか判定する
+   * Obsidianと同じく、親タグの指定は入れ子のタグ（project/alpha など）にも一致する
+   * @param noteTags ノートのタグ（正規化済み）
+   * @param tags 指定したタグ（正規化済み）
+   * @returns 一致する場合true
+   */
+  private static hasAnyTag(noteTags: string[], tags: string[]): boolean {
+    return tags.some(tag => noteTags.some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`)));
+  }
+}
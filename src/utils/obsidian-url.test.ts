@@ -0,0 +1,24 @@
+import { ObsidianUrlParser } from './obsidian-url.js';
+
+describe('ObsidianUrlParser', () => {
+  it('parses the vault, the file and the heading or block subpath', () => {
+    expect(ObsidianUrlParser.parse('obsidian://open?vault=My%20Vault&file=notes%2FGuide%23Setup%23Linux')).toEqual({
+      vault: 'My Vault',
+      file: 'notes/Guide',
+      path: 'notes/Guide',
+      subpath: 'Setup#Linux'
+    });
+    expect(ObsidianUrlParser.parse('obsidian://open?vault=v&file=Guide#%5Eintro').subpath).toBe('^intro');
+  });
+
+  it('rejects actions other than open', () => {
+    expect(() => ObsidianUrlParser.parse('obsidian://search?vault=v&query=x')).toThrow(
+      "INVALID_OBSIDIAN_URL: Only 'open' action is supported"
+    );
+  });
+
+  it('converts a subpath into a section path or a block id', () => {
+    expect(ObsidianUrlParser.toRegion('Setup#Linux')).toEqual({ section: 'Setup > Linux' });
+    expect(ObsidianUrlParser.toRegion('^intro')).toEqual({ blockId: 'intro' });
+  });
+});
@@ -1,4 +1,4 @@
-import { ObsidianUrl, ErrorCode } from '../types/index.js';
+import { ObsidianUrl, NoteRegion, ErrorCode } from '../types/index.js';
 
 export class ObsidianUrlParser {
   /**
@@ -14,7 +14,9 @@ export class ObsidianUrlParser {
     try {
       const urlObj = new URL(url);
       
-      if (urlObj.pathname !== '/open') {
+      // obsidian://open?... ではアクションがホスト名として解釈される
+      const action = urlObj.hostname || urlObj.pathname.replace(/^\/+/, '');
+      if (action !== 'open') {
         throw new Error(`${ErrorCode.INVALID_URL}: Only 'open' action is supported`);
       }
 
@@ -31,14 +33,22 @@ export class ObsidianUrlParser {
 
       // URLデコード
       const decodedFile = decodeURIComponent(file);
+
+      // 見出し・ブロックの指定（file=Note%23Heading またはURLのフラグメント）を分離
+      const hashIndex = decodedFile.indexOf('#');
+      const filePart = hashIndex === -1 ? decodedFile : decodedFile.slice(0, hashIndex);
+      const subpath = hashIndex === -1
+        ? decodeURIComponent(urlObj.hash.replace(/^#/, ''))
+        : decodedFile.slice(hashIndex + 1);
       
       // パスの正規化
-      const normalizedPath = decodedFile.replace(/\\/g, '/');
+      const normalizedPath = filePart.replace(/\\/g, '/');
       
       return {
         vault: vault,
-        file: decodedFile,
-        path: normalizedPath
+        file: filePart,
+        path: normalizedPath,
+        ...(subpath ? { subpath } : {})
       };
     } catch (error) {
       if (error instanceof Error && error.message.includes('INVALID_OBSIDIAN_URL')) {
@@ -48,6 +58,19 @@ export class ObsidianUrlParser {
     }
   }
 
+  /**
+   * URLの見出し・ブロックの指定を範囲の指定に変換する
+   * "#Setup#Linux" は見出しのパス、"#^block-id" はブロックIDとして扱う
+   * @param subpath URLの # 以降
+   * @returns 範囲の指定
+   */
+  static toRegion(subpath: string): NoteRegion {
+    if (subpath.startsWith('^')) {
+      return { blockId: subpath.slice(1) };
+    }
+    return { section: subpath.split('#').map(part => part.trim()).filter(Boolean).join(' > ') };
+  }
+
   /**
    * 設定されたVaultとリクエストされたVaultが一致するかチェック
    * @param requestedVault リクエストされたVault名
@@ -0,0 +1,72 @@
+import { MarkdownOutline } from './outline.js';
+
+const NOTE = [
+  '---',
+  'title: Guide',
+  '---',
+  '# Guide',
+  '',
+  '## Setup',
+  '',
+  '```sh',
+  '# not a heading',
+  'echo ^not-a-block',
+  '```',
+  '',
+  '### Linux',
+  '',
+  'Install it. ^install',
+  '',
+  '- first',
+  '- second ^item',
+  '',
+  '## Usage',
+  '',
+  'Run it.',
+  ''
+].join('\n');
+
+describe('MarkdownOutline', () => {
+  it('lists headings outside code blocks', () => {
+    expect(MarkdownOutline.headings(NOTE.split('\n')).map(heading => heading.text)).toEqual([
+      'Guide',
+      'Setup',
+      'Linux',
+      'Usage'
+    ]);
+  });
+
+  it('resolves a heading path to the section without trailing blank lines', () => {
+    expect(MarkdownOutline.resolve(NOTE, { section: 'Setup > ### Linux' })).toEqual({
+      start: 12,
+      end: 18,
+      label: "Section 'Setup > ### Linux'"
+    });
+  });
+
+  it('resolves a block id to its paragraph or list item', () => {
+    expect(MarkdownOutline.resolve(NOTE, { blockId: '^install' })).toMatchObject({ start: 14, end: 15 });
+    expect(MarkdownOutline.resolve(NOTE, { blockId: 'item' })).toMatchObject({ start: 17, end: 18 });
+    expect(() => MarkdownOutline.resolve(NOTE, { blockId: 'not-a-block' })).toThrow('INVALID_REGION');
+  });
+
+  it('resolves a task by its exact text, or by a unique part of it', () => {
+    const note = '- [ ] Buy milk\n- [x] Buy milk and bread\n\n```\n- [ ] Call Bob\n```\n1. [ ] Call Alice\n';
+
+    expect(MarkdownOutline.resolve(note, { task: 'buy  MILK' })).toMatchObject({ start: 0, end: 1 });
+    expect(MarkdownOutline.resolve(note, { task: '- [x] Alice' })).toMatchObject({ start: 6, end: 7 });
+    expect(() => MarkdownOutline.resolve(note, { task: 'Buy' })).toThrow('matches 2 tasks (lines 1, 2)');
+    expect(() => MarkdownOutline.resolve(note, { task: 'Call Bob' })).toThrow('not found');
+  });
+
+  it('matches block ids at the end of a line only', () => {
+    expect(MarkdownOutline.blockIdPattern('^a.b').test('Text ^a.b')).toBe(true);
+    expect(MarkdownOutline.blockIdPattern('a.b').test('Text ^aXb')).toBe(false);
+    expect(MarkdownOutline.blockIdPattern('a', 'm').test('Text ^a\nMore')).toBe(true);
+  });
+
+  it('rejects line ranges that overlap the frontmatter', () => {
+    expect(() => MarkdownOutline.resolve(NOTE, { startLine: 2, endLine: 4 })).toThrow('INVALID_REGION');
+    expect(MarkdownOutline.resolve(NOTE, { startLine: 4 })).toMatchObject({ start: 3, end: 4 });
+  });
+});
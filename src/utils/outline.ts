@@ -0,0 +1,266 @@
+import { ErrorCode, NoteTarget, OutlineHeading, ResolvedRegion } from '../types/index.js';
+import { MarkdownSyntax, LIST_ITEM_PATTERN } from './markdown-syntax.js';
+
+// タスクの行（- [ ] text / - [x] text）の行頭（インデント・記号・チェックボックス）とテキスト
+export const TASK_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[.\]\s+)(.*)$/;
+
+export class MarkdownOutline {
+  /**
+   * ノートの見出しを列挙する（コードブロック内の行は除く）
+   * @param lines ノートの行
+   * @param startLine 探索を始める行（0始まり、Frontmatterを除く場合に指定）
+   * @returns 見出しの配列
+   */
+  static headings(lines: string[], startLine: number = 0): OutlineHeading[] {
+    const headings: OutlineHeading[] = [];
+
+    for (const line of this.linesOutsideCode(lines, startLine)) {
+      const heading = lines[line].match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+      if (heading) {
+        headings.push({ level: heading[1].length, text: heading[2], line });
+      }
+    }
+    return headings;
+  }
+
+  /**
+   * コードブロックの外側の行を列挙する（コードブロックの区切りの行も除く）
+   * @param lines ノートの行
+   * @param startLine 探索を始める行（0始まり）
+   * @returns 行番号（0始まり）の配列
+   */
+  private static linesOutsideCode(lines: string[], startLine: number): number[] {
+    const fences = MarkdownSyntax.scanFences(lines);
+    const result: number[] = [];
+
+    for (let line = startLine; line < lines.length; line++) {
+      if (fences[line] === 'text') {
+        result.push(line);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 見出しやタスクのテキストを比較用に正規化する（前後の空白を除き、空白をまとめ、小文字にする）
+   * @param text テキスト
+   * @returns 正規化したテキスト
+   */
+  static normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  /**
+   * ブロックIDの先頭の^を除く
+   * @param blockId ブロックID（先頭の^は省略可）
+   * @returns ^を除いたブロックID
+   */
+  static normalizeBlockId(blockId: string): string {
+    return blockId.replace(/^\^/, '');
+  }
+
+  /**
+   * 行末のブロックID（^id）に一致するパターンを作成する
+   * @param blockId ブロックID（先頭の^は省略可）
+   * @param flags 正規表現のフラグ（複数行のテキストを調べる場合は m）
+   * @returns パターン
+   */
+  static blockIdPattern(blockId: string, flags: string = ''): RegExp {
+    const escaped = this.normalizeBlockId(blockId).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?:^|\\s)\\^${escaped}\\s*$`, flags);
+  }
+
+  /**
+   * Frontmatterの行数を数える
+   * @param lines ノートの行
+   * @returns Frontmatterの行数（Frontmatterがない場合0）
+   */
+  static frontmatterLines(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') {
+      return 0;
+    }
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    return end === -1 ? 0 : end + 1;
+  }
+
+  /**
+   * 範囲が指定されているか判定する
+   * @param region 範囲の指定
+   * @returns いずれかが指定されている場合true
+   */
+  static hasTarget(region: NoteTarget): boolean {
+    return [region.section, region.blockId, region.task, region.startLine, region.endLine].some(v => v !== undefined);
+  }
+
+  /**
+   * 見出しのパス・ブロックID・タスク・行範囲で指定された範囲をノートの行番号に変換する
+   * 範囲末尾の空行は含めない
+   * @param content ノートの内容
+   * @param region 範囲の指定（いずれか1つ）
+   * @returns 範囲（0始まり、endは含まない）
+   * @throws 範囲が見つからない、または指定が不正な場合
+   */
+  static resolve(content: string, region: NoteTarget): ResolvedRegion {
+    const lines = content.split('\n');
+    const bodyStart = this.frontmatterLines(lines);
+    const specified = [region.section, region.blockId, region.task, region.startLine ?? region.endLine]
+      .filter(v => v !== undefined);
+    if (specified.length !== 1) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: Specify exactly one of section, blockId, task or a line range`);
+    }
+
+    let resolved: ResolvedRegion;
+    if (region.section !== undefined) {
+      resolved = this.findSection(lines, bodyStart, region.section);
+    } else if (region.blockId !== undefined) {
+      resolved = this.findBlock(lines, bodyStart, region.blockId);
+    } else if (region.task !== undefined) {
+      resolved = this.findTask(lines, bodyStart, region.task);
+    } else {
+      resolved = this.lineRange(lines, bodyStart, region.startLine, region.endLine);
+    }
+
+    while (resolved.end > resolved.start && !lines[resolved.end - 1].trim()) {
+      resolved.end--;
+    }
+    if (resolved.end === resolved.start) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: ${resolved.label} is empty`);
+    }
+    return resolved;
+  }
+
+  /**
+   * 見出しのパス（例: "## Setup > ### Linux"）からセクションの範囲を求める
+   * セクションは見出しの行から、同じかより上位のレベルの次の見出しの直前までとする
+   * @param lines ノートの行
+   * @param bodyStart 本文の開始行
+   * @param headingPath 見出しのパス（"#"の数は省略可）
+   * @returns セクションの範囲
+   */
+  private static findSection(lines: string[], bodyStart: number, headingPath: string): ResolvedRegion {
+    const parts = headingPath.split('>').map(part => part.trim()).filter(Boolean);
+    if (parts.length === 0) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: Heading path is empty`);
+    }
+
+    const headings = this.headings(lines, bodyStart);
+    let scope = { start: bodyStart, end: lines.length, level: 0 };
+
+    for (const part of parts) {
+      const [, hashes, text] = part.match(/^(#{1,6})?\s*(.*)$/)!;
+      const heading = headings.find(h =>
+        h.line >= scope.start &&
+        h.line < scope.end &&
+        h.level > scope.level &&
+        (!hashes || h.level === hashes.length) &&
+        this.normalizeText(h.text) === this.normalizeText(text)
+      );
+      if (!heading) {
+        throw new Error(`${ErrorCode.INVALID_REGION}: Heading '${part}' not found in '${headingPath}'`);
+      }
+
+      const next = headings.find(h => h.line > heading.line && h.level <= heading.level);
+      scope = { start: heading.line, end: next ? next.line : lines.length, level: heading.level };
+    }
+
+    return { start: scope.start, end: scope.end, label: `Section '${headingPath}'` };
+  }
+
+  /**
+   * ブロックID（^id）が付いたブロックの範囲を求める
+   * 単独行のブロックIDは直前のブロック（テーブル・引用など）を指す
+   * @param lines ノートの行
+   * @param bodyStart 本文の開始行
+   * @param blockId ブロックID（先頭の^は省略可）
+   * @returns ブロックの範囲
+   */
+  private static findBlock(lines: string[], bodyStart: number, blockId: string): ResolvedRegion {
+    const id = this.normalizeBlockId(blockId);
+    const pattern = this.blockIdPattern(id);
+    const label = `Block '^${id}'`;
+
+    const line = this.linesOutsideCode(lines, bodyStart).find(i => pattern.test(lines[i])) ?? -1;
+    if (line === -1) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: ${label} not found`);
+    }
+
+    // リスト項目はその項目の行のみ
+    if (LIST_ITEM_PATTERN.test(lines[line])) {
+      return { start: line, end: line + 1, label };
+    }
+
+    // 単独行のIDは直前のブロックを指す
+    let start = line;
+    if (lines[line].trim().startsWith('^')) {
+      start = line - 1;
+      while (start > bodyStart && !lines[start].trim()) {
+        start--;
+      }
+    }
+
+    // 段落の先頭（空行または見出しの直後）まで遡る
+    const isHeading = (text: string) => /^#{1,6}\s/.test(text);
+    while (start > bodyStart && lines[start - 1].trim() && !isHeading(lines[start]) && !isHeading(lines[start - 1])) {
+      start--;
+    }
+    return { start: Math.max(start, bodyStart), end: line + 1, label };
+  }
+
+  /**
+   * テキストが一致するタスクの行を求める
+   * テキストが完全に一致するタスクを優先し、なければテキストを含むタスクを探す（大文字・小文字は区別しない）
+   * @param lines ノートの行
+   * @param bodyStart 本文の開始行
+   * @param task タスクのテキスト（チェックボックスは省略可）
+   * @returns タスクの行
+   * @throws 見つからない、または複数のタスクに一致する場合
+   */
+  private static findTask(lines: string[], bodyStart: number, task: string): ResolvedRegion {
+    const text = this.normalizeText(task.match(TASK_PATTERN)?.[2] ?? task);
+    const label = `Task '${task.trim()}'`;
+    if (!text) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: Task text is empty`);
+    }
+
+    const candidates = this.linesOutsideCode(lines, bodyStart)
+      .map(line => ({ line, text: this.normalizeText(lines[line].match(TASK_PATTERN)?.[2] ?? '') }))
+      .filter(t => t.text);
+
+    const exact = candidates.filter(t => t.text === text);
+    const matches = exact.length > 0 ? exact : candidates.filter(t => t.text.includes(text));
+    if (matches.length === 0) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: ${label} not found`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `${ErrorCode.INVALID_REGION}: ${label} matches ${matches.length} tasks (lines ${matches.map(t => t.line + 1).join(', ')})`
+      );
+    }
+    return { start: matches[0].line, end: matches[0].line + 1, label };
+  }
+
+  /**
+   * 行範囲（1始まり、両端を含む）を検証して範囲に変換する
+   * @param lines ノートの行
+   * @param bodyStart 本文の開始行
+   * @param startLine 開始行
+   * @param endLine 終了行（省略時は開始行のみ）
+   * @returns 行範囲
+   */
+  private static lineRange(
+    lines: string[],
+    bodyStart: number,
+    startLine: number | undefined,
+    endLine: number | undefined
+  ): ResolvedRegion {
+    const start = startLine ?? endLine!;
+    const end = endLine ?? start;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start || end > lines.length) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: Invalid line range ${start}-${end} (note has ${lines.length} lines)`);
+    }
+    if (start <= bodyStart) {
+      throw new Error(`${ErrorCode.INVALID_REGION}: Line range ${start}-${end} overlaps the frontmatter`);
+    }
+    return { start: start - 1, end, label: `Lines ${start}-${end}` };
+  }
+}
@@ -0,0 +1,50 @@
+import { jest } from '@jest/globals';
+import { RateLimiter } from './rate-limiter.js';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs at most the given number of tasks at the same time', async () => {
+    const limiter = new RateLimiter(2, 100);
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map(n =>
+        limiter.run(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          active--;
+          return n;
+        })
+      )
+    );
+
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('waits for the next minute once the requests per minute are used up', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter(10, 2);
+    const started: number[] = [];
+
+    const runs = [1, 2, 3].map(n => limiter.run(async () => started.push(n)));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    expect(started).toEqual([1, 2, 3]);
+    await Promise.all(runs);
+  });
+
+  it('releases the slot when a task fails', async () => {
+    const limiter = new RateLimiter(1, 100);
+
+    await expect(limiter.run(async () => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+});
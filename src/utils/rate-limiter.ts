@@ -0,0 +1,67 @@
+// 1分間（ミリ秒）
+const WINDOW_MS = 60_000;
+
+/**
+ * 同時実行数と1分あたりのリクエスト数を制限する
+ * プロセス全体で1つのインスタンスを共有し、すべてのツールからのAPI呼び出しに適用する
+ */
+export class RateLimiter {
+  private maxConcurrent: number;
+  private requestsPerMinute: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private startTimes: number[] = [];
+
+  constructor(maxConcurrent: number = 4, requestsPerMinute: number = 50) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    this.requestsPerMinute = Math.max(1, requestsPerMinute);
+  }
+
+  /**
+   * 制限の範囲内でタスクを実行する
+   * @param task 実行するタスク
+   * @returns タスクの結果
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * 実行枠を確保し、1分あたりのリクエスト数を超える場合は空くまで待つ
+   */
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      // 解放された枠をそのまま引き継ぐ
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    for (;;) {
+      const now = Date.now();
+      this.startTimes = this.startTimes.filter(time => now - time < WINDOW_MS);
+      if (this.startTimes.length < this.requestsPerMinute) {
+        this.startTimes.push(now);
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.startTimes[0] + WINDOW_MS - now));
+    }
+  }
+
+  /**
+   * 実行枠を解放し、待機中のタスクがあれば引き継ぐ
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
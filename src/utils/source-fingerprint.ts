@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import { MarkdownOutline } from './outline.js';
+import { SectionChanges } from '../types/index.js';
+
+// 見出しより前の部分を表すセクション名
+export const PREAMBLE_SECTION = '(preamble)';
+
+// セクションごとのハッシュの長さ（16進数の桁数）
+const SECTION_HASH_LENGTH = 12;
+
+export class SourceFingerprint {
+  /**
+   * 原文の本文のハッシュを求める（前後の空白と改行コードの違いは無視する）
+   * @param body 原文の本文
+   * @returns SHA-256ハッシュ（16進数）
+   */
+  static hash(body: string): string {
+    return createHash('sha256').update(this.normalize(body)).digest('hex');
+  }
+
+  /**
+   * 原文の本文を見出しごとのセクションに分け、それぞれのハッシュを求める
+   * セクションは見出しから次の見出し（レベルを問わない）の直前までとし、見出しのパスで識別する
+   * @param body 原文の本文
+   * @returns 見出しのパスとハッシュの対応
+   */
+  static sections(body: string): Record<string, string> {
+    const lines = body.replace(/\r\n/g, '\n').split('\n');
+    const headings = MarkdownOutline.headings(lines);
+    const sections: Record<string, string> = {};
+    const add = (name: string, start: number, end: number) => {
+      const text = lines.slice(start, end).join('\n');
+      if (!text.trim()) {
+        return;
+      }
+      // 同じパスの見出しが複数ある場合は番号を付けて区別する
+      let key = name;
+      for (let n = 2; key in sections; n++) {
+        key = `${name} (${n})`;
+      }
+      sections[key] = this.hash(text).slice(0, SECTION_HASH_LENGTH);
+    };
+
+    add(PREAMBLE_SECTION, 0, headings[0]?.line ?? lines.length);
+
+    const path: Array<{ level: number; text: string }> = [];
+    headings.forEach((heading, i) => {
+      while (path.length > 0 && path[path.length - 1].level >= heading.level) {
+        path.pop();
+      }
+      path.push(heading);
+      const name = path.map(h => `${'#'.repeat(h.level)} ${h.text}`).join(' > ');
+      add(name, heading.line, headings[i + 1]?.line ?? lines.length);
+    });
+
+    return sections;
+  }
+
+  /**
+   * 翻訳時と現在のセクションのハッシュを比較する
+   * @param recorded 翻訳時のセクションのハッシュ
+   * @param current 現在のセクションのハッシュ
+   * @returns 変更・追加・削除されたセクション
+   */
+  static compareSections(recorded: Record<string, string>, current: Record<string, string>): SectionChanges {
+    return {
+      changed: Object.keys(current).filter(name => name in recorded && recorded[name] !== current[name]),
+      added: Object.keys(current).filter(name => !(name in recorded)),
+      removed: Object.keys(recorded).filter(name => !(name in current))
+    };
+  }
+
+  /**
+   * ハッシュを求める前にテキストを正規化する
+   * @param text テキスト
+   * @returns 正規化されたテキスト
+   */
+  private static normalize(text: string): string {
+    return text.replace(/\r\n/g, '\n').trim();
+  }
+}
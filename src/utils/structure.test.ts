@@ -0,0 +1,48 @@
+import { MarkdownStructure } from './structure.js';
+
+const SOURCE = [
+  '# Title',
+  '',
+  '- [ ] Open [[Note]]',
+  '- [x] Done',
+  '',
+  'Name | Value',
+  '--- | ---',
+  'a | ![[image.png]]',
+  '',
+  '```',
+  '# not a heading',
+  '- not an item',
+  '```',
+  ''
+].join('\n');
+
+describe('MarkdownStructure', () => {
+  it('counts structure outside code blocks', () => {
+    expect(MarkdownStructure.analyze(SOURCE)).toEqual({
+      headings: [1],
+      listItems: 2,
+      checkboxes: [false, true],
+      tables: [{ rows: 3, columns: 2 }],
+      codeBlocks: 1,
+      links: 1,
+      embeds: 1
+    });
+  });
+
+  it('accepts a translation with the same structure', () => {
+    const translation = SOURCE.replace('Open', 'Öffne').replace('Done', 'Erledigt').replace('Title', 'Titel');
+
+    expect(MarkdownStructure.compare(SOURCE, translation)).toEqual([]);
+  });
+
+  it('reports each element that changed', () => {
+    const translation = SOURCE.replace('- [ ] Open', '- [x] Open').replace('[[Note]]', 'Note').replace('# Title', '## Title');
+
+    expect(MarkdownStructure.compare(SOURCE, translation)).toEqual([
+      { element: 'headings', expected: 'H1', actual: 'H2' },
+      { element: 'checkboxes', expected: '[ ] [x]', actual: '[x] [x]' },
+      { element: 'links', expected: '1', actual: '0' }
+    ]);
+  });
+});
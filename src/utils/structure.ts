@@ -0,0 +1,105 @@
+import { MarkdownStructureSummary, StructureMismatch } from '../types/index.js';
+import { MarkdownSyntax, LIST_ITEM_PATTERN } from './markdown-syntax.js';
+
+export class MarkdownStructure {
+  /**
+   * Markdown本文の構造を集計する
+   * コードブロックの内側とインラインコードは見出し・リスト・リンクとして数えない
+   * @param content Markdown本文
+   * @returns 構造の集計
+   */
+  static analyze(content: string): MarkdownStructureSummary {
+    const summary: MarkdownStructureSummary = {
+      headings: [],
+      listItems: 0,
+      checkboxes: [],
+      tables: [],
+      codeBlocks: 0,
+      links: 0,
+      embeds: 0
+    };
+
+    const lines = content.split('\n');
+    const fences = MarkdownSyntax.scanFences(lines);
+    let table: { rows: number; columns: number } | null = null;
+
+    for (const [i, line] of lines.entries()) {
+      // フェンスコードブロック（閉じフェンスまでを1つとして数える）
+      if (fences[i] !== 'text') {
+        if (fences[i] === 'open') {
+          summary.codeBlocks++;
+        }
+        table = null;
+        continue;
+      }
+
+      // テーブル（区切り行を持つヘッダー行から | を含む行が続くまでを1つとし、列数はヘッダー行で数える）
+      if (table && line.trim() && line.includes('|')) {
+        table.rows++;
+      } else if (line.includes('|') && fences[i + 1] === 'text' && MarkdownSyntax.isTableDelimiter(lines[i + 1])) {
+        table = { rows: 1, columns: this.countCells(line) };
+        summary.tables.push(table);
+      } else {
+        table = null;
+      }
+
+      const heading = line.match(/^(#{1,6})\s/);
+      if (heading) {
+        summary.headings.push(heading[1].length);
+      }
+
+      const listItem = line.match(LIST_ITEM_PATTERN);
+      if (listItem) {
+        summary.listItems++;
+        if (listItem[3]) {
+          summary.checkboxes.push(listItem[4] !== ' ');
+        }
+      }
+
+      const text = line.replace(/`[^`\n]+`/g, '');
+      summary.embeds += (text.match(/!\[\[[^\]\n]+\]\]|!\[[^\]\n]*\]\([^)\n]+\)/g) ?? []).length;
+      summary.links += (text.match(/(?<!!)\[\[[^\]\n]+\]\]|(?<!!)\[[^\]\n]*\]\([^)\n]+\)/g) ?? []).length;
+    }
+
+    return summary;
+  }
+
+  /**
+   * 原文と訳文の構造を比較する
+   * @param source 原文の本文
+   * @param translation 訳文の本文
+   * @returns 構造の不一致の配列（一致する場合は空配列）
+   */
+  static compare(source: string, translation: string): StructureMismatch[] {
+    const expected = this.analyze(source);
+    const actual = this.analyze(translation);
+    const mismatches: StructureMismatch[] = [];
+
+    const check = (element: StructureMismatch['element'], format: (summary: MarkdownStructureSummary) => string) => {
+      const expectedText = format(expected);
+      const actualText = format(actual);
+      if (expectedText !== actualText) {
+        mismatches.push({ element, expected: expectedText, actual: actualText });
+      }
+    };
+
+    check('headings', summary => summary.headings.map(level => `H${level}`).join(', ') || 'none');
+    check('listItems', summary => String(summary.listItems));
+    check('checkboxes', summary => summary.checkboxes.map(checked => (checked ? '[x]' : '[ ]')).join(' ') || 'none');
+    check('tables', summary => summary.tables.map(t => `${t.rows}x${t.columns}`).join(', ') || 'none');
+    check('codeBlocks', summary => String(summary.codeBlocks));
+    check('links', summary => String(summary.links));
+    check('embeds', summary => String(summary.embeds));
+
+    return mismatches;
+  }
+
+  /**
+   * テーブル行のセル数を数える
+   * @param line テーブルの行
+   * @returns セル数
+   */
+  private static countCells(line: string): number {
+    return line.trim().replace(/^\||\|$/g, '').split(/(?<!\\)\|/).length;
+  }
+}
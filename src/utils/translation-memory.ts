@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { FileSystemHelper } from './file-system.js';
+import { TranslationMemoryEntry } from '../types/index.js';
+
+// Obsidianのファイル一覧に表示されないよう隠しフォルダに保存する
+export const TRANSLATION_MEMORY_PATH = '.mcp-translation-memory/memory.json';
+
+export class TranslationMemory {
+  private fileSystem: FileSystemHelper;
+  private memoryPath: string;
+  private entries: Promise<Map<string, TranslationMemoryEntry>> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(fileSystem: FileSystemHelper, memoryPath: string = TRANSLATION_MEMORY_PATH) {
+    this.fileSystem = fileSystem;
+    this.memoryPath = memoryPath;
+  }
+
+  /**
+   * 原文セグメントと翻訳先言語からキーを生成する
+   * @param source 原文セグメント
+   * @param targetLanguage 翻訳先言語
+   * @returns キー
+   */
+  static key(source: string, targetLanguage: string): string {
+    const hash = createHash('sha256').update(source.trim()).digest('hex');
+    return `${targetLanguage}:${hash}`;
+  }
+
+  /**
+   * キャッシュ済みの翻訳を取得する
+   * @param source 原文セグメント
+   * @param targetLanguage 翻訳先言語
+   * @returns 翻訳（存在しない場合undefined）
+   */
+  async get(source: string, targetLanguage: string): Promise<string | undefined> {
+    const entries = await this.load();
+    return entries.get(TranslationMemory.key(source, targetLanguage))?.translation;
+  }
+
+  /**
+   * 翻訳を登録する
+   * @param source 原文セグメント
+   * @param targetLanguage 翻訳先言語
+   * @param translation 翻訳
+   */
+  async set(source: string, targetLanguage: string, translation: string): Promise<void> {
+    const entries = await this.load();
+    entries.set(TranslationMemory.key(source, targetLanguage), {
+      translation,
+      updated: new Date().toISOString()
+    });
+  }
+
+  /**
+   * メモリをファイルに保存する
+   * 同時に呼ばれても書き込みが重ならないよう直列化する
+   */
+  async save(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(async () => {
+      const entries = await this.load();
+      const data = {
+        version: 1,
+        entries: Object.fromEntries(entries)
+      };
+      await this.fileSystem.writeFile(this.memoryPath, JSON.stringify(data));
+    });
+    return this.saving;
+  }
+
+  /**
+   * メモリファイルを読み込む（初回のみ）
+   * @returns エントリのマップ
+   */
+  private load(): Promise<Map<string, TranslationMemoryEntry>> {
+    if (!this.entries) {
+      this.entries = this.readEntries();
+    }
+    return this.entries;
+  }
+
+  /**
+   * メモリファイルからエントリを読み込む
+   * @returns エントリのマップ
+   */
+  private async readEntries(): Promise<Map<string, TranslationMemoryEntry>> {
+    if (!(await this.fileSystem.exists(this.memoryPath))) {
+      return new Map();
+    }
+
+    try {
+      const data: unknown = JSON.parse(await this.fileSystem.readFile(this.memoryPath));
+      const recorded = typeof data === 'object' && data !== null ? (data as Record<string, unknown>).entries : null;
+      const entries = typeof recorded === 'object' && recorded !== null ? Object.entries(recorded) : [];
+      return new Map(entries.filter((entry): entry is [string, TranslationMemoryEntry] => this.isEntry(entry[1])));
+    } catch (error) {
+      // 壊れたメモリファイルは空として扱い、次回保存時に作り直す
+      console.warn(`Warning: Failed to load translation memory '${this.memoryPath}': ${error}`);
+      return new Map();
+    }
+  }
+
+  /**
+   * 読み込んだ値がメモリのエントリの形式か判定する
+   * @param value メモリファイルの値
+   * @returns エントリの場合true
+   */
+  private isEntry(value: unknown): value is TranslationMemoryEntry {
+    const entry = value as Partial<TranslationMemoryEntry> | null;
+    return typeof entry === 'object' && entry !== null &&
+      typeof entry.translation === 'string' && typeof entry.updated === 'string';
+  }
+}
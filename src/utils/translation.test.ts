@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import matter from 'gray-matter';
+import { TranslationService } from './translation.js';
+import { TranslationMemory, TRANSLATION_MEMORY_PATH } from './translation-memory.js';
+import { FileSystemHelper } from './file-system.js';
+import { PseudoProvider } from '../providers/pseudo.js';
+import { ProviderRequest, ProviderResponse, TranslationProvider } from '../types/index.js';
+
+const BODY = [
+  '# Guide',
+  '',
+  'See [[Other note#Setup|the setup]] and `code` with $x^2$.',
+  '',
+  '    indented block',
+  '',
+  '',
+  '- item',
+  '  continued',
+  '',
+  '%% a comment',
+  '',
+  'spanning paragraphs %%',
+  '',
+  '```js',
+  'const a = 1;',
+  '',
+  'const b = 2;',
+  '```',
+  '',
+  'a | b',
+  '- | -',
+  '1 | 2',
+  '',
+  'Paragraph ^block-id',
+  ''
+].join('\n');
+
+describe('TranslationService', () => {
+  it('returns the original body after chunking, protecting and restoring', async () => {
+    // 小さいチャンクに分けて、複数のチャンクを結合する場合も確認する
+    const service = new TranslationService(new PseudoProvider('echo'), undefined, 40);
+
+    const output = await service.translateContent(BODY, 'de');
+
+    expect(matter(output.content).content).toBe(BODY);
+  });
+
+  it('translates text but keeps protected Markdown', async () => {
+    const service = new TranslationService(new PseudoProvider());
+
+    const output = await service.translateContent('Read [[Note]] and `run it` now.\n', 'de');
+
+    expect(matter(output.content).content).toBe('Ŕéáď [[Note]] áñď `run it` ñöŵ.\n');
+  });
+
+  it('fails instead of returning a truncated translation', async () => {
+    const truncating: TranslationProvider = {
+      name: 'pseudo',
+      model: 'truncating',
+      complete: async (request: ProviderRequest): Promise<ProviderResponse> => ({
+        text: request.text.slice(0, 5),
+        truncated: true,
+        usage: { inputTokens: 10, outputTokens: 5 }
+      })
+    };
+    const service = new TranslationService(truncating);
+
+    await expect(service.translateContent('Some text\n', 'de')).rejects.toThrow('TRANSLATION_TRUNCATED');
+  });
+
+  it('translates only the selected frontmatter fields and keeps their originals', async () => {
+    const service = new TranslationService(new PseudoProvider());
+    const note = '---\ntitle: Hello\naliases: [Greeting, Hi]\ncount: 3\nstatus: draft\n---\nBody.\n';
+
+    const output = await service.translateContent(note, 'de', { translateFields: ['title', 'aliases', 'count'] });
+
+    const { data } = matter(output.content);
+    expect(output.translatedFields).toEqual(['title', 'aliases']);
+    expect(data).toMatchObject({ title: 'Ĥéļļö', aliases: ['Ĝŕééţíñĝ', 'Ĥí'], count: 3, status: 'draft' });
+    expect(data.translated.original).toEqual({ title: 'Hello', aliases: ['Greeting', 'Hi'] });
+  });
+
+  describe('with a translation memory', () => {
+    let vaultPath: string;
+    let fileSystem: FileSystemHelper;
+
+    beforeEach(async () => {
+      vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'translation-memory-'));
+      fileSystem = new FileSystemHelper(vaultPath);
+    });
+
+    afterEach(async () => {
+      await fs.rm(vaultPath, { recursive: true, force: true });
+    });
+
+    it('reuses unchanged blocks from an earlier translation', async () => {
+      const first = new TranslationService(new PseudoProvider(), new TranslationMemory(fileSystem));
+      await first.translateContent('# Title\n\nFirst paragraph.\n', 'de');
+
+      // 保存されたメモリを別のインスタンスから読み込む
+      const second = new TranslationService(new PseudoProvider(), new TranslationMemory(fileSystem));
+      const output = await second.translateContent('# Title\n\nFirst paragraph.\n\nNew paragraph.\n', 'de');
+
+      expect(output.memory).toEqual({ hits: 2, misses: 1 });
+      expect(matter(output.content).content).toContain('Ñéŵ þáŕáĝŕáþĥ.');
+    });
+
+    it('ignores malformed entries in the memory file', async () => {
+      const key = TranslationMemory.key('Hello', 'de');
+      await fileSystem.writeFile(
+        TRANSLATION_MEMORY_PATH,
+        JSON.stringify({ version: 1, entries: { [key]: { translation: 42 }, other: 'broken' } })
+      );
+
+      expect(await new TranslationMemory(fileSystem).get('Hello', 'de')).toBeUndefined();
+    });
+  });
+});
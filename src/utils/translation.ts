@@ -1,171 +1,431 @@
-import Anthropic from '@anthropic-ai/sdk';
 import matter from 'gray-matter';
-import { TranslationResult, ErrorCode } from '../types/index.js';
+import {
+  TranslationProvider,
+  TranslationOutput,
+  TranslationMemoryStats,
+  UsageStats,
+  TranslateContentOptions,
+  GlossaryEntry,
+  MarkdownBlock,
+  ErrorCode
+} from '../types/index.js';
+import { MarkdownChunker } from './markdown-chunker.js';
+import { MarkdownStructure } from './structure.js';
+import { MarkdownProtector } from './markdown-protector.js';
+import { TranslationMemory } from './translation-memory.js';
+import { Glossary } from './glossary.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { Usage } from './usage.js';
+import { SourceFingerprint } from './source-fingerprint.js';
+
+// 1回のAPI呼び出しで許可する出力トークン数
+const MAX_OUTPUT_TOKENS = 4000;
+
+// 1チャンクあたりの最大文字数（出力がMAX_OUTPUT_TOKENSに収まる目安）
+const DEFAULT_MAX_CHUNK_CHARS = 4000;
 
 export class TranslationService {
-  private anthropic: Anthropic;
+  private provider: TranslationProvider;
+  private memory?: TranslationMemory;
+  private maxChunkChars: number;
+  private sessionUsage: UsageStats = Usage.empty();
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    });
+  constructor(
+    provider: TranslationProvider,
+    memory?: TranslationMemory,
+    maxChunkChars: number = DEFAULT_MAX_CHUNK_CHARS
+  ) {
+    this.provider = provider;
+    this.memory = memory;
+    this.maxChunkChars = maxChunkChars;
   }
 
   /**
    * テキストを翻訳する
    * @param content 翻訳するコンテンツ
    * @param targetLanguage 翻訳先言語
+   * @param options 翻訳メモリの利用有無、用語集、対訳表示用にリスト項目単位で翻訳するか、ドライランか、翻訳するFrontmatterのキー、推定した原文の言語、原文のハッシュを記録するか、キャンセルと進捗の通知
    * @returns 翻訳結果
    */
   async translateContent(
     content: string,
-    targetLanguage: string = '日本語'
-  ): Promise<string> {
+    targetLanguage: string = '日本語',
+    options: TranslateContentOptions = {}
+  ): Promise<TranslationOutput> {
     try {
       // Frontmatterを分離
       const { data: frontmatter, content: bodyContent } = matter(content);
       
-      // コンテンツが空の場合はそのまま返す
-      if (!bodyContent.trim()) {
-        return content;
+      // コンテンツが空で翻訳するFrontmatterもない場合はそのまま返す
+      if (!bodyContent.trim() && !options.translateFields?.length) {
+        return {
+          content,
+          segments: [],
+          translatedFields: [],
+          memory: { hits: 0, misses: 0 },
+          usage: Usage.empty(),
+          glossaryViolations: []
+        };
       }
 
-      // 翻訳用のプロンプトを作成
-      const prompt = this.createTranslationPrompt(bodyContent, targetLanguage);
+      // 本文を翻訳する
+      const glossary = Glossary.forLanguage(options.glossary ?? [], targetLanguage);
+      const body = await this.translateBody(bodyContent, targetLanguage, { ...options, glossary });
+      const { content: translatedContent, segments, memory, usage, glossaryViolations } = body;
 
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 4000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      const translatedContent = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : bodyContent;
+      // 指定されたFrontmatterのフィールドを翻訳する
+      const fields = await this.translateFields(frontmatter, targetLanguage, { ...options, glossary });
+      memory.hits += fields.memory.hits;
+      memory.misses += fields.memory.misses;
+      Usage.add(usage, fields.usage);
 
-      // 翻訳メタデータをFrontmatterに追加
+      // 翻訳メタデータをFrontmatterに追加（翻訳したフィールドの原文も残す）
+      // 原文のハッシュは、翻訳後も原文が残り古くなった翻訳を検出できる場合のみ記録する
+      // 原文のハッシュは、翻訳後も原文が残り古くなった翻訳を検出できる場合のみ記録する
       const updatedFrontmatter = {
         ...frontmatter,
+        ...fields.translated,
         translated: {
           date: new Date().toISOString(),
           target_language: targetLanguage,
-          model: 'claude-3-haiku-20240307'
+          ...(options.sourceLanguage ? { source_language: options.sourceLanguage } : {}),
+          ...(options.trackSource
+            ? { source_hash: SourceFingerprint.hash(bodyContent), source_sections: SourceFingerprint.sections(bodyContent) }
+            : {}),
+          provider: this.provider.name,
+          model: this.provider.model,
+          usage: Usage.toFrontmatter(usage),
+          ...(Object.keys(fields.original).length > 0 ? { original: fields.original } : {})
         }
       };
 
       // Frontmatterと翻訳されたコンテンツを結合
       const result = matter.stringify(translatedContent, updatedFrontmatter);
-      
-      return result;
+
+      return {
+        content: result,
+        segments,
+        translatedFields: Object.keys(fields.translated),
+        memory,
+        usage,
+        glossaryViolations
+      };
     } catch (error) {
-      throw new Error(`${ErrorCode.TRANSLATION_FAILED}: Translation failed: ${error}`);
+      throw this.toTranslationError(error);
     }
   }
 
   /**
-   * 翻訳用のプロンプトを作成
-   * @param content 翻訳するコンテンツ
+   * ノートの一部（セクション・ブロックなど）を翻訳する
+   * Frontmatterは扱わず、翻訳メタデータも追加しない
+   * @param fragment 翻訳するMarkdown
    * @param targetLanguage 翻訳先言語
-   * @returns プロンプト
+   * @param options 翻訳メモリの利用有無、用語集
+   * @returns 翻訳結果
    */
-  private createTranslationPrompt(content: string, targetLanguage: string): string {
-    return `以下のMarkdownテキストを${targetLanguage}に翻訳してください。
+  async translateFragment(
+    fragment: string,
+    targetLanguage: string = '日本語',
+    options: TranslateContentOptions = {}
+  ): Promise<TranslationOutput> {
+    try {
+      const glossary = Glossary.forLanguage(options.glossary ?? [], targetLanguage);
+      const body = await this.translateBody(fragment, targetLanguage, { ...options, glossary });
+      return { ...body, translatedFields: [] };
+    } catch (error) {
+      throw this.toTranslationError(error);
+    }
+  }
 
-翻訳時の注意事項：
-1. コードブロック（\`\`\`で囲まれた部分）は翻訳しないでください
-2. WikiLink形式（[[リンク]]）とMarkdownリンク形式（[テキスト](URL)）は構造を保持してください
-3. 見出し（#）の階層構造は保持してください
-4. 箇条書きやナンバリングの形式は保持してください
-5. 自然で読みやすい${targetLanguage}に翻訳してください
-6. 技術用語は適切な日本語に翻訳するか、必要に応じて英語のまま残してください
+  /**
+   * 本文をブロック単位で翻訳し、元の順序で結合する
+   * @param bodyContent 本文
+   * @param targetLanguage 翻訳先言語
+   * @param options 翻訳オプション（用語集は翻訳先言語で絞り込み済み）
+   * @returns 翻訳された本文、原文と訳文の組、メモリの利用状況、用語集違反
+   */
+  private async translateBody(
+    bodyContent: string,
+    targetLanguage: string,
+    options: TranslateContentOptions
+  ): Promise<Omit<TranslationOutput, 'translatedFields'>> {
+    const blocks = options.interleave
+      ? MarkdownChunker.splitSegments(bodyContent)
+      : MarkdownChunker.splitBlocks(bodyContent);
+    const { translations, memory, usage } = await this.translateBlocks(blocks, targetLanguage, options);
+    const content = MarkdownChunker.join(
+      blocks.map((block, index) => ({ text: translations[index], separator: block.separator }))
+    );
 
-翻訳するテキスト：
-${content}
+    // 用語集に従っているか検証する
+    const glossaryViolations = Glossary.check(bodyContent, content, options.glossary ?? []);
+    const segments = blocks.map((source, index) => ({ source, translation: translations[index] }));
 
-翻訳されたテキストのみを出力してください。説明や追加のコメントは不要です。`;
+    return { content, segments, memory, usage, glossaryViolations };
   }
 
   /**
-   * コードブロックを保護する（翻訳前処理）
-   * @param content コンテンツ
-   * @returns 保護されたコンテンツとプレースホルダーのマップ
+   * 翻訳中のエラーをエラーコード付きのエラーに変換する
+   * 打ち切り・プレースホルダー不一致・プロバイダーの利用不可・キャンセルはそのまま返す
+   * @param error 発生したエラー
+   * @returns エラーコード付きのエラー
    */
-  private protectCodeBlocks(content: string): { content: string; placeholders: Map<string, string> } {
-    const placeholders = new Map<string, string>();
-    let counter = 0;
-
-    // インラインコードを保護
-    let protectedContent = content.replace(/`([^`]+)`/g, (match, code) => {
-      const placeholder = `__INLINE_CODE_${counter++}__`;
-      placeholders.set(placeholder, match);
-      return placeholder;
-    });
+  private toTranslationError(error: unknown): Error {
+    if (
+      error instanceof Error &&
+      (error.message.includes(ErrorCode.TRANSLATION_TRUNCATED) ||
+        error.message.includes(ErrorCode.PLACEHOLDER_MISMATCH) ||
+        error.message.includes(ErrorCode.PROVIDER_UNAVAILABLE) ||
+        error.message.includes(ErrorCode.CANCELLED))
+    ) {
+      return error;
+    }
+    return new Error(`${ErrorCode.TRANSLATION_FAILED}: Translation failed: ${error}`);
+  }
+
+  /**
+   * Frontmatterの指定されたフィールドを翻訳する
+   * 文字列と文字列の配列のみを対象とし、それ以外の型のフィールドは変更しない
+   * @param frontmatter Frontmatter
+   * @param targetLanguage 翻訳先言語
+   * @param options 翻訳するキー、翻訳メモリの利用有無、翻訳先言語で絞り込み済みの用語集
+   * @returns 翻訳したフィールド、その原文、メモリの利用状況
+   */
+  private async translateFields(
+    frontmatter: Record<string, any>,
+    targetLanguage: string,
+    options: TranslateContentOptions
+  ): Promise<{
+    translated: Record<string, string | string[]>;
+    original: Record<string, string | string[]>;
+    memory: TranslationMemoryStats;
+    usage: UsageStats;
+  }> {
+    const translated: Record<string, string | string[]> = {};
+    const original: Record<string, string | string[]> = {};
+    const memory: TranslationMemoryStats = { hits: 0, misses: 0 };
+    const usage = Usage.empty();
+
+    const translateValue = async (value: string): Promise<string> => {
+      if (!value.trim()) {
+        return value;
+      }
+      // 値ごとに翻訳し、改行を含む値でも1つの訳文として扱う（進捗は本文のチャンク単位でのみ通知する）
+      const result = await this.translateBlocks(
+        [{ type: 'paragraph', text: value, separator: '\n' }],
+        targetLanguage,
+        { ...options, control: { signal: options.control?.signal } }
+      );
+      memory.hits += result.memory.hits;
+      memory.misses += result.memory.misses;
+      Usage.add(usage, result.usage);
+      return result.translations[0].trim();
+    };
+
+    for (const key of options.translateFields ?? []) {
+      const value = frontmatter[key];
+
+      if (typeof value === 'string') {
+        translated[key] = await translateValue(value);
+        original[key] = value;
+      } else if (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string')) {
+        const items: string[] = [];
+        for (const item of value) {
+          items.push(await translateValue(item));
+        }
+        translated[key] = items;
+        original[key] = value;
+      }
+    }
+
+    return { translated, original, memory, usage };
+  }
+
+  /**
+   * ブロックの配列を翻訳する
+   * 翻訳メモリにあるブロックは再利用し、それ以外の連続するブロックをチャンクにまとめて翻訳する
+   * @param blocks 翻訳するブロック
+   * @param targetLanguage 翻訳先言語
+   * @param options 翻訳メモリの利用有無、翻訳先言語で絞り込み済みの用語集、ドライランか（ドライランでは翻訳メモリに登録しない）、キャンセルと進捗の通知
+   * @returns ブロックと同じ順序の翻訳（前のブロックにまとめられた場合は空文字）とメモリの利用状況
+   * @throws キャンセルされた場合は CANCELLED（チャンクの翻訳を開始する前に確認する）
+   */
+  async translateBlocks(
+    blocks: MarkdownBlock[],
+    targetLanguage: string,
+    options: TranslateContentOptions = {}
+  ): Promise<{ translations: string[]; memory: TranslationMemoryStats; usage: UsageStats }> {
+    const useMemory = options.useMemory ?? true;
+    const translations: Array<string | undefined> = [];
+    const memory: TranslationMemoryStats = { hits: 0, misses: 0 };
+    const usage = Usage.empty();
+
+    for (const block of blocks) {
+      // コードブロックは翻訳しない（対訳表示ではテーブルも原文のみを残す）
+      if (block.type === 'code' || (options.interleave && block.type === 'table')) {
+        translations.push(block.text);
+        continue;
+      }
+
+      const cached = useMemory ? await this.memory?.get(block.text, targetLanguage) : undefined;
+      if (cached !== undefined) {
+        memory.hits++;
+      } else {
+        memory.misses++;
+      }
+      translations.push(cached);
+    }
 
-    // コードブロックを保護
-    protectedContent = protectedContent.replace(/```[\\s\\S]*?```/g, (match) => {
-      const placeholder = `__CODE_BLOCK_${counter++}__`;
-      placeholders.set(placeholder, match);
-      return placeholder;
+    // 未翻訳のブロックを連続する範囲ごとにチャンクへまとめる
+    const groups: Array<Array<MarkdownBlock & { index: number }>> = [];
+    let run: Array<MarkdownBlock & { index: number }> = [];
+    blocks.forEach((block, index) => {
+      if (translations[index] === undefined) {
+        run.push({ ...block, index });
+        return;
+      }
+      groups.push(...MarkdownChunker.groupBlocks(run, this.maxChunkChars));
+      run = [];
     });
+    groups.push(...MarkdownChunker.groupBlocks(run, this.maxChunkChars));
+
+    for (const [groupIndex, group] of groups.entries()) {
+      if (options.control?.signal?.aborted) {
+        throw new Error(`${ErrorCode.CANCELLED}: Translation was cancelled before chunk ${groupIndex + 1}/${groups.length}`);
+      }
+
+      const chunk = group.map(block => block.text).join('\n\n');
+      const translatedChunk = await this.translateChunk(
+        chunk,
+        targetLanguage,
+        options.glossary ?? [],
+        groupIndex + 1,
+        groups.length,
+        usage
+      );
+      const translatedBlocks = MarkdownChunker.splitBlocks(translatedChunk);
+
+      if (translatedBlocks.length === group.length) {
+        // ブロック数が一致する場合はブロックごとに対応付け、構造が崩れていない訳文のみメモリに登録する
+        for (const [i, block] of group.entries()) {
+          translations[block.index] = translatedBlocks[i].text;
+          if (!options.dryRun && MarkdownStructure.compare(block.text, translatedBlocks[i].text).length === 0) {
+            await this.memory?.set(block.text, targetLanguage, translatedBlocks[i].text);
+          }
+        }
+      } else {
+        // 対応付けられない場合はチャンク全体を先頭ブロックの位置に置く
+        group.forEach((block, i) => {
+          translations[block.index] = i === 0 ? translatedChunk : '';
+        });
+      }
+
+      options.control?.onProgress?.({ completed: groupIndex + 1, total: groups.length });
+    }
 
-    return { content: protectedContent, placeholders };
+    if (groups.length > 0 && !options.dryRun) {
+      await this.memory?.save();
+    }
+
+    return { translations: translations.map(t => t ?? ''), memory, usage };
   }
 
   /**
-   * 保護されたコードブロックを復元する（翻訳後処理）
-   * @param content 翻訳されたコンテンツ
-   * @param placeholders プレースホルダーのマップ
-   * @returns 復元されたコンテンツ
+   * 1チャンク分を翻訳する
+   * 出力が途中で打ち切られた場合は部分的な結果を返さずにエラーとする
+   * @param chunk 翻訳するチャンク
+   * @param targetLanguage 翻訳先言語
+   * @param glossary 適用される用語集
+   * @param index チャンク番号（1始まり）
+   * @param total チャンク総数
+   * @param usage トークン利用量の加算先（打ち切られた呼び出しも含めて記録する）
+   * @returns 翻訳されたチャンク
    */
-  private restoreCodeBlocks(content: string, placeholders: Map<string, string>): string {
-    let restoredContent = content;
-    
-    placeholders.forEach((original, placeholder) => {
-      restoredContent = restoredContent.replace(placeholder, original);
+  private async translateChunk(
+    chunk: string,
+    targetLanguage: string,
+    glossary: GlossaryEntry[],
+    index: number,
+    total: number,
+    usage: UsageStats
+  ): Promise<string> {
+    // 翻訳対象外の要素をプレースホルダーに置き換える
+    const { content: protectedChunk, placeholders } = MarkdownProtector.protect(chunk);
+    const prompt = this.createTranslationPrompt(protectedChunk, targetLanguage, glossary);
+
+    const response = await this.provider.complete({
+      prompt,
+      text: protectedChunk,
+      targetLanguage,
+      maxTokens: MAX_OUTPUT_TOKENS
     });
+    Usage.add(usage, response.usage);
+    Usage.add(this.sessionUsage, response.usage);
+
+    if (response.truncated) {
+      throw new Error(
+        `${ErrorCode.TRANSLATION_TRUNCATED}: Translation of chunk ${index}/${total} was truncated at ${MAX_OUTPUT_TOKENS} tokens`
+      );
+    }
+
+    const translatedChunk = response.text;
+    MarkdownProtector.verify(translatedChunk, placeholders);
+
+    return MarkdownProtector.restore(translatedChunk, placeholders);
+  }
+
+  /**
+   * このプロセスで翻訳を開始してからのトークン利用量を取得する
+   * @returns 累計の利用量
+   */
+  getSessionUsage(): UsageStats {
+    return { ...this.sessionUsage };
+  }
+
+  /**
+   * 翻訳用のプロンプトを作成
+   * @param content 翻訳するコンテンツ
+   * @param targetLanguage 翻訳先言語
+   * @param glossary 適用される用語集
+   * @returns プロンプト
+   */
+  private createTranslationPrompt(
+    content: string,
+    targetLanguage: string,
+    glossary: GlossaryEntry[] = []
+  ): string {
+    return `以下のMarkdownテキストを${targetLanguage}に翻訳してください。
+
+翻訳時の注意事項：
+1. ⟦P0⟧ のような形式のプレースホルダーは、変更・削除・複製せずにそのまま出力してください
+2. Markdownリンク形式（[テキスト](URL)）はリンクテキストのみ翻訳してください
+3. 見出し（#）の階層構造は保持してください
+4. 箇条書きやナンバリングの形式は保持してください
+5. 自然で読みやすい${targetLanguage}に翻訳してください
+6. 用語集にない技術用語は適切な${targetLanguage}に翻訳するか、必要に応じて原語のまま残してください
+${Glossary.toPromptSection(glossary)}
+翻訳するテキスト：
+${content}
 
-    return restoredContent;
+翻訳されたテキストのみを出力してください。説明や追加のコメントは不要です。`;
   }
 
   /**
    * バッチ翻訳（複数ファイル）
    * @param contents 翻訳するコンテンツの配列
    * @param targetLanguage 翻訳先言語
-   * @returns 翻訳結果の配列
+   * @param options 翻訳メモリの利用有無、用語集、ドライランか
+   * @param concurrency 同時実行数
+   * @returns 入力と同じ順序の翻訳結果（失敗した要素は rejected）
    */
   async translateBatch(
     contents: string[],
-    targetLanguage: string = '日本語'
-  ): Promise<string[]> {
-    const results: string[] = [];
-    
-    // 同時実行数を制限
-    const batchSize = 3;
-    
-    for (let i = 0; i < contents.length; i += batchSize) {
-      const batch = contents.slice(i, i + batchSize);
-      
-      const batchPromises = batch.map(content => 
-        this.translateContent(content, targetLanguage)
-      );
-      
-      const batchResults = await Promise.allSettled(batchPromises);
-      
-      for (const result of batchResults) {
-        if (result.status === 'fulfilled') {
-          results.push(result.value);
-        } else {
-          // エラーの場合は元のコンテンツを返す
-          results.push(contents[results.length]);
-        }
-      }
-    }
-    
-    return results;
+    targetLanguage: string = '日本語',
+    options: TranslateContentOptions = {},
+    concurrency: number = 3
+  ): Promise<PromiseSettledResult<TranslationOutput>[]> {
+    return await mapWithConcurrency(contents, concurrency, content =>
+      this.translateContent(content, targetLanguage, options)
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,37 @@
+import { TokenUsage, UsageStats } from '../types/index.js';
+
+export class Usage {
+  /**
+   * 空の利用量を作成する
+   * @returns 利用量
+   */
+  static empty(): UsageStats {
+    return { inputTokens: 0, outputTokens: 0, requests: 0 };
+  }
+
+  /**
+   * 利用量を加算する（target を変更する）
+   * @param target 加算先
+   * @param usage 加算する利用量（API呼び出し1回分の場合は requests を省略する）
+   * @returns 加算後の target
+   */
+  static add(target: UsageStats, usage: TokenUsage & { requests?: number }): UsageStats {
+    target.inputTokens += usage.inputTokens;
+    target.outputTokens += usage.outputTokens;
+    target.requests += usage.requests ?? 1;
+    return target;
+  }
+
+  /**
+   * Frontmatterに記録する形式に変換する
+   * @param usage 利用量
+   * @returns Frontmatterの値
+   */
+  static toFrontmatter(usage: UsageStats): Record<string, number> {
+    return {
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      requests: usage.requests
+    };
+  }
+}
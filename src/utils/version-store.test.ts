@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { VersionStore, BACKUP_INDEX_PATH, DEFAULT_BACKUP_RETENTION } from './version-store.js';
+import { BackupRetention } from '../types/index.js';
+
+describe('VersionStore', () => {
+  let vaultPath: string;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'version-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  const createStore = (retention: Partial<BackupRetention> = {}, legacy: string[] = []) =>
+    new VersionStore(vaultPath, { ...DEFAULT_BACKUP_RETENTION, ...retention }, async () => legacy);
+
+  const listObjects = async () => {
+    const objectsPath = path.join(vaultPath, '.mcp-backups', 'objects');
+    const folders = await fs.readdir(objectsPath);
+    return (await Promise.all(folders.map(folder => fs.readdir(path.join(objectsPath, folder))))).flat();
+  };
+
+  const writeVaultFile = async (relativePath: string, content: string | Buffer) => {
+    await fs.mkdir(path.dirname(path.join(vaultPath, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(vaultPath, relativePath), content);
+  };
+
+  it('stores the same content once and skips versions equal to the latest one', async () => {
+    const store = createStore();
+
+    const first = await store.snapshot('A.md', 'Same content', 'create');
+    const repeated = await store.snapshot('A.md', 'Same content', 'update');
+    const other = await store.snapshot('B.md', 'Same content', 'create');
+
+    expect(repeated).toEqual(first);
+    expect(other.hash).toBe(first.hash);
+    expect(await store.list()).toHaveLength(2);
+    expect(await listObjects()).toEqual([`${first.hash}.gz`]);
+    expect(await store.read(other.id)).toBe('Same content');
+  });
+
+  it('deletes the oldest versions beyond the per-note limit and their unreferenced content', async () => {
+    const store = createStore({ maxVersionsPerNote: 2 });
+
+    const oldest = await store.snapshot('A.md', 'one', 'create');
+    await store.snapshot('A.md', 'two', 'update');
+    await store.snapshot('A.md', 'three', 'update');
+
+    expect((await store.list('A.md')).map(version => version.operation)).toEqual(['update', 'update']);
+    expect(await listObjects()).not.toContain(`${oldest.hash}.gz`);
+    await expect(store.read(oldest.id)).rejects.toThrow('BACKUP_NOT_FOUND');
+  });
+
+  it('keeps the latest version of each note when the total size is over the limit', async () => {
+    const store = createStore({ maxTotalBytes: 1 });
+
+    await store.snapshot('A.md', 'first', 'create');
+    const latest = await store.snapshot('A.md', 'second', 'update');
+    const other = await store.snapshot('B.md', 'other', 'create');
+
+    expect(await store.list()).toEqual([other, latest]);
+  });
+
+  it('deletes versions older than the retention period', async () => {
+    await writeVaultFile('Old.backup-1000000000000.md', 'expired');
+    const store = createStore({}, ['Old.backup-1000000000000.md']);
+
+    const recent = await store.snapshot('Old.md', 'recent', 'update');
+    await store.cleanup();
+
+    expect(await store.list()).toEqual([recent]);
+  });
+
+  it('migrates uncompressed backups and ignores malformed index entries', async () => {
+    const timestamp = Date.now() - 1000;
+    await writeVaultFile('.mcp-backups/notes/Guide.backup-1.md', 'from index');
+    await writeVaultFile(`notes/Guide.backup-${timestamp}.md`, 'next to the note');
+    await writeVaultFile(
+      BACKUP_INDEX_PATH,
+      JSON.stringify({
+        version: 1,
+        migrated: true,
+        backups: [
+          {
+            originalPath: 'notes/Guide.md',
+            backupPath: '.mcp-backups/notes/Guide.backup-1.md',
+            timestamp: new Date(timestamp - 1000).toISOString()
+          },
+          { originalPath: 'notes/Broken.md' }
+        ]
+      })
+    );
+    // 索引に記録済みのため、同じフォルダのバックアップは探さない
+    const store = createStore({}, [`notes/Guide.backup-${timestamp}.md`]);
+
+    const versions = await store.list();
+
+    expect(versions).toHaveLength(1);
+    expect(versions[0]).toMatchObject({ originalPath: 'notes/Guide.md', operation: 'external' });
+    expect(await store.read(versions[0].id)).toBe('from index');
+    await expect(fs.access(path.join(vaultPath, '.mcp-backups/notes/Guide.backup-1.md'))).rejects.toThrow();
+  });
+
+  it('drops malformed versions from the current index format', async () => {
+    const store = createStore();
+    const version = await store.snapshot('A.md', 'content', 'create');
+    const index = JSON.parse(await fs.readFile(path.join(vaultPath, BACKUP_INDEX_PATH), 'utf-8'));
+    index.backups.push({ id: 'broken', originalPath: 'B.md' }, null);
+    await writeVaultFile(BACKUP_INDEX_PATH, JSON.stringify(index));
+
+    expect(await store.list()).toEqual([version]);
+  });
+});
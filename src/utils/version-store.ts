@@ -0,0 +1,382 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { join, dirname, basename } from 'path';
+import {
+  BackupInfo,
+  BackupIndex,
+  BackupRetention,
+  VersionOperation,
+  ErrorCode
+} from '../types/index.js';
+import { writeFileAtomic } from './atomic-write.js';
+
+// Obsidianのファイル一覧・グラフ・検索に表示されないよう隠しフォルダに保存する
+export const BACKUP_STORE_DIR = '.mcp-backups';
+export const BACKUP_INDEX_PATH = `${BACKUP_STORE_DIR}/index.json`;
+
+// 内容のハッシュごとに圧縮して保存するフォルダ
+const OBJECTS_DIR = `${BACKUP_STORE_DIR}/objects`;
+
+// 索引の形式（1: 非圧縮のファイルをフォルダ構成のまま保存、2: 内容のハッシュで重複を排除して圧縮）
+const INDEX_VERSION = 2;
+
+// 以前の形式のバックアップ（元のノートと同じフォルダの note.backup-<timestamp>.md）
+export const LEGACY_BACKUP_PATTERN = /^(.*)\.backup-(\d+)(\.md)$/;
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = {
+  maxAgeDays: 30,
+  maxVersionsPerNote: 50,
+  maxTotalBytes: 100 * 1024 * 1024
+};
+
+// 以前の形式（非圧縮）の索引に記録されていたバックアップ
+type LegacyBackup = { backupPath: string; originalPath: string; timestamp: string };
+
+// 索引の更新をVaultごとに直列化する（ツールごとのインスタンスで共有する）
+const indexUpdates = new Map<string, Promise<unknown>>();
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * ノートの版を内容のハッシュで重複排除し、gzip圧縮して保存する
+ * 版の一覧は索引に記録し、保持期間・ノートごとの版数・合計サイズの上限で古い版から削除する
+ */
+export class VersionStore {
+  private vaultPath: string;
+  private retention: BackupRetention;
+  private findLegacyBackups: () => Promise<string[]>;
+
+  /**
+   * @param vaultPath Vaultのパス
+   * @param retention 保持ポリシー
+   * @param findLegacyBackups 以前の形式のバックアップを探す関数（Vaultルートからの相対パスを返す）
+   */
+  constructor(vaultPath: string, retention: BackupRetention, findLegacyBackups: () => Promise<string[]>) {
+    this.vaultPath = vaultPath;
+    this.retention = retention;
+    this.findLegacyBackups = findLegacyBackups;
+  }
+
+  /**
+   * 内容のハッシュを求める
+   * @param content ノートの内容
+   * @returns SHA-256ハッシュ（16進数）
+   */
+  static hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * ノートの版を記録する
+   * 同じノートの最新の版と内容が同じ場合は記録せず、最新の版を返す
+   * @param originalPath ノートのパス
+   * @param content ノートの内容
+   * @param operation この内容を作成した操作
+   * @returns 記録した（または既存の最新の）版
+   */
+  async snapshot(originalPath: string, content: string, operation: VersionOperation): Promise<BackupInfo> {
+    return await this.update(async index => {
+      const hash = VersionStore.hash(content);
+      const latest = index.backups.filter(backup => backup.originalPath === originalPath).pop();
+      if (latest?.hash === hash) {
+        return latest;
+      }
+
+      const backup = await this.add(index, originalPath, content, operation, Date.now());
+      await this.applyRetention(index);
+      return backup;
+    });
+  }
+
+  /**
+   * 版を新しい順に一覧する
+   * @param originalPath ノートのパス（省略時はすべてのノート）
+   * @returns 版の配列
+   */
+  async list(originalPath?: string): Promise<BackupInfo[]> {
+    const backups = await this.update(async index => index.backups);
+    return backups
+      .filter(backup => !originalPath || backup.originalPath === originalPath)
+      .reverse();
+  }
+
+  /**
+   * 版を取得する
+   * @param id 版のID
+   * @returns 版
+   */
+  async get(id: string): Promise<BackupInfo> {
+    const backups = await this.list();
+    const backup = backups.find(backup => backup.id === id);
+    if (!backup) {
+      throw new Error(`${ErrorCode.BACKUP_NOT_FOUND}: Backup '${id}' not found`);
+    }
+    return backup;
+  }
+
+  /**
+   * 版の内容を読み込む
+   * @param id 版のID
+   * @returns ノートの内容
+   */
+  async read(id: string): Promise<string> {
+    const backup = await this.get(id);
+    try {
+      const compressed = await fs.readFile(this.getAbsolutePath(this.objectPath(backup.hash)));
+      return (await gunzipAsync(compressed)).toString('utf-8');
+    } catch (error) {
+      throw new Error(`${ErrorCode.BACKUP_NOT_FOUND}: Content of backup '${id}' is missing: ${error}`);
+    }
+  }
+
+  /**
+   * 保持ポリシーを適用し、古い版と参照されなくなった内容を削除する
+   */
+  async cleanup(): Promise<void> {
+    await this.update(index => this.applyRetention(index));
+  }
+
+  /**
+   * 索引に版を追加し、内容を保存する（同じ時刻の版がある場合は時刻をずらしてIDを一意にする）
+   * @param index 索引
+   * @param originalPath ノートのパス
+   * @param content ノートの内容
+   * @param operation この内容を作成した操作
+   * @param timestamp 作成時刻（ミリ秒）
+   * @returns 追加した版
+   */
+  private async add(
+    index: BackupIndex,
+    originalPath: string,
+    content: string,
+    operation: VersionOperation,
+    timestamp: number
+  ): Promise<BackupInfo> {
+    const hash = VersionStore.hash(content);
+    const storedSize = await this.writeObject(hash, content);
+
+    const id = (time: number) => `${time}-${hash.slice(0, 8)}`;
+    while (index.backups.some(backup => backup.id === id(timestamp))) {
+      timestamp++;
+    }
+
+    const backup: BackupInfo = {
+      id: id(timestamp),
+      originalPath,
+      hash,
+      operation,
+      timestamp: new Date(timestamp).toISOString(),
+      size: Buffer.byteLength(content, 'utf-8'),
+      storedSize
+    };
+    index.backups.push(backup);
+    index.backups.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return backup;
+  }
+
+  /**
+   * 保持ポリシーを適用する
+   * 保持期間を過ぎた版、ノートごとの版数の上限を超えた古い版を削除し、
+   * 合計サイズが上限を超える場合は各ノートの最新の版を除いて古い版から削除する
+   * @param index 索引
+   */
+  private async applyRetention(index: BackupIndex): Promise<void> {
+    const cutoff = Date.now() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    let kept = index.backups.filter(backup => new Date(backup.timestamp).getTime() >= cutoff);
+
+    // ノートごとに新しい版から数える
+    const counts = new Map<string, number>();
+    kept = kept.reverse().filter(backup => {
+      const count = (counts.get(backup.originalPath) ?? 0) + 1;
+      counts.set(backup.originalPath, count);
+      return count <= this.retention.maxVersionsPerNote;
+    }).reverse();
+
+    // 重複を除いた保存サイズの合計
+    const totalSize = (backups: BackupInfo[]) =>
+      [...new Map(backups.map(backup => [backup.hash, backup.storedSize])).values()].reduce((a, b) => a + b, 0);
+    while (totalSize(kept) > this.retention.maxTotalBytes) {
+      const oldest = kept.find(backup =>
+        kept.some(other => other.originalPath === backup.originalPath && other.timestamp > backup.timestamp)
+      );
+      if (!oldest) {
+        break;
+      }
+      kept = kept.filter(backup => backup !== oldest);
+    }
+
+    // 参照されなくなった内容を削除する
+    const referenced = new Set(kept.map(backup => backup.hash));
+    for (const hash of new Set(index.backups.map(backup => backup.hash))) {
+      if (!referenced.has(hash)) {
+        await fs.rm(this.getAbsolutePath(this.objectPath(hash)), { force: true });
+      }
+    }
+    index.backups = kept;
+  }
+
+  /**
+   * 索引を読み込んで更新し、保存する
+   * 初回は以前の形式のバックアップを取り込む
+   * @param update 索引を変更する関数
+   * @returns update の戻り値
+   */
+  private update<T>(update: (index: BackupIndex) => Promise<T>): Promise<T> {
+    const key = this.getAbsolutePath(BACKUP_INDEX_PATH);
+    const task = (indexUpdates.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const { index, legacy } = await this.readIndex();
+        const before = JSON.stringify(index, null, 2);
+        if (legacy.length > 0 || !index.migrated) {
+          await this.migrate(index, legacy);
+        }
+        const result = await update(index);
+        // 変更がない場合（一覧の取得など）は書き込まない
+        const after = JSON.stringify(index, null, 2);
+        if (after !== before) {
+          await writeFileAtomic(this.getAbsolutePath(BACKUP_INDEX_PATH), after);
+        }
+        return result;
+      });
+    indexUpdates.set(key, task);
+    return task;
+  }
+
+  /**
+   * 索引を読み込む
+   * @returns 索引と、以前の形式（非圧縮）の索引に記録されていたバックアップ
+   */
+  private async readIndex(): Promise<{ index: BackupIndex; legacy: LegacyBackup[] }> {
+    const empty = { index: { version: INDEX_VERSION, migrated: false, backups: [] }, legacy: [] };
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(this.getAbsolutePath(BACKUP_INDEX_PATH), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        // 壊れた索引は空として扱い、以前の形式のバックアップも探し直す
+        console.warn(`Warning: Failed to load backup index '${BACKUP_INDEX_PATH}': ${error}`);
+      }
+      return empty;
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      console.warn(`Warning: Failed to load backup index '${BACKUP_INDEX_PATH}': not an object`);
+      return empty;
+    }
+
+    const recorded = data as Record<string, unknown>;
+    const backups: unknown[] = Array.isArray(recorded.backups) ? recorded.backups : [];
+    const migrated = recorded.migrated === true;
+    if (recorded.version === INDEX_VERSION) {
+      return {
+        index: { version: INDEX_VERSION, migrated, backups: backups.filter(backup => this.isVersion(backup)) },
+        legacy: []
+      };
+    }
+    return {
+      index: { version: INDEX_VERSION, migrated, backups: [] },
+      legacy: backups.filter(backup => this.isLegacyBackup(backup))
+    };
+  }
+
+  /**
+   * 索引から読み込んだ値が版の形式か判定する
+   * @param value 索引の値
+   * @returns 版の場合true
+   */
+  private isVersion(value: unknown): value is BackupInfo {
+    const backup = value as Partial<BackupInfo> | null;
+    return typeof backup === 'object' && backup !== null &&
+      typeof backup.id === 'string' &&
+      typeof backup.originalPath === 'string' &&
+      typeof backup.hash === 'string' &&
+      typeof backup.timestamp === 'string' &&
+      typeof backup.storedSize === 'number';
+  }
+
+  /**
+   * 以前の形式の索引から読み込んだ値がバックアップの形式か判定する
+   * @param value 索引の値
+   * @returns バックアップの場合true
+   */
+  private isLegacyBackup(value: unknown): value is LegacyBackup {
+    const backup = value as Partial<LegacyBackup> | null;
+    return typeof backup === 'object' && backup !== null &&
+      typeof backup.backupPath === 'string' &&
+      typeof backup.originalPath === 'string' &&
+      typeof backup.timestamp === 'string';
+  }
+
+  /**
+   * 以前の形式のバックアップを取り込み、元のファイルを削除する
+   * @param index 索引
+   * @param legacy 以前の形式の索引に記録されていたバックアップ
+   */
+  private async migrate(index: BackupIndex, legacy: LegacyBackup[]): Promise<void> {
+    const files = legacy.map(backup => ({ ...backup, time: new Date(backup.timestamp).getTime() }));
+
+    // 元のノートと同じフォルダにあるバックアップ（最初の形式）
+    if (!index.migrated) {
+      for (const backupPath of await this.findLegacyBackups()) {
+        const [, baseName, timestamp, ext] = basename(backupPath).match(LEGACY_BACKUP_PATTERN)!;
+        files.push({
+          backupPath,
+          originalPath: join(dirname(backupPath), `${baseName}${ext}`),
+          timestamp: new Date(Number(timestamp)).toISOString(),
+          time: Number(timestamp)
+        });
+      }
+    }
+
+    for (const file of files.sort((a, b) => a.time - b.time)) {
+      try {
+        const content = await fs.readFile(this.getAbsolutePath(file.backupPath), 'utf-8');
+        await this.add(index, file.originalPath, content, 'external', file.time);
+        await fs.rm(this.getAbsolutePath(file.backupPath), { force: true });
+      } catch (error) {
+        console.warn(`Warning: Failed to migrate backup '${file.backupPath}': ${error}`);
+      }
+    }
+
+    index.migrated = true;
+  }
+
+  /**
+   * 内容を圧縮して保存する（同じ内容がすでにある場合は保存しない）
+   * @param hash 内容のハッシュ
+   * @param content ノートの内容
+   * @returns 保存サイズ（バイト）
+   */
+  private async writeObject(hash: string, content: string): Promise<number> {
+    const objectPath = this.getAbsolutePath(this.objectPath(hash));
+    try {
+      return (await fs.stat(objectPath)).size;
+    } catch {
+      const compressed = await gzipAsync(Buffer.from(content, 'utf-8'));
+      await writeFileAtomic(objectPath, compressed);
+      return compressed.length;
+    }
+  }
+
+  /**
+   * 内容の保存先のパスを求める
+   * @param hash 内容のハッシュ
+   * @returns Vaultルートからの相対パス
+   */
+  private objectPath(hash: string): string {
+    return `${OBJECTS_DIR}/${hash.slice(0, 2)}/${hash}.gz`;
+  }
+
+  /**
+   * Vault内の相対パスから絶対パスを求める
+   * @param relativePath Vault内の相対パス
+   * @returns 絶対パス
+   */
+  private getAbsolutePath(relativePath: string): string {
+    return join(this.vaultPath, relativePath);
+  }
+}
@@ -0,0 +1,28 @@
+import { WikiLinks } from './wikilinks.js';
+
+describe('WikiLinks', () => {
+  it('parses targets, subpaths and aliases outside code', () => {
+    const content = 'See [[Note#Setup|setup]] and ![[image.png]] in `[[Inline]]`.\n```\n[[Fenced]]\n```\n| [[Table\\|cell]] |';
+
+    expect(WikiLinks.parse(content)).toEqual([
+      { raw: '[[Note#Setup|setup]]', embed: false, target: 'Note', subpath: '#Setup', alias: 'setup', aliasSeparator: '|' },
+      { raw: '![[image.png]]', embed: true, target: 'image.png', subpath: '', alias: undefined, aliasSeparator: '|' },
+      { raw: '[[Table\\|cell]]', embed: false, target: 'Table', subpath: '', alias: 'cell', aliasSeparator: '\\|' }
+    ]);
+  });
+
+  it('rebuilds a link with the same alias separator', () => {
+    const [link] = WikiLinks.parse('[[Table\\|cell]]');
+
+    expect(WikiLinks.format({ ...link, target: 'Tabelle' })).toBe('[[Tabelle\\|cell]]');
+  });
+
+  it('resolves link targets like Obsidian', () => {
+    const files = ['Note.md', 'docs/Note.md', 'docs/Guide.md', 'other/deep/Guide.md'];
+
+    expect(WikiLinks.resolve('Note', 'docs/Guide.md', files)).toBe('docs/Note.md');
+    expect(WikiLinks.resolve('Note', 'Index.md', files)).toBe('Note.md');
+    expect(WikiLinks.resolve('deep/Guide', 'other/Index.md', files)).toBe('other/deep/Guide.md');
+    expect(WikiLinks.resolve('Missing', 'Index.md', files)).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { WikiLink, MarkdownLink } from '../types/index.js';
+import { MarkdownSyntax } from './markdown-syntax.js';
+
+// インラインコード、またはWikiLink・埋め込み
+const WIKILINK_PATTERN = /(`+)[^`\n]*?\1|(!?)\[\[([^\]\n]+)\]\]/g;
+
+// インラインコード、またはMarkdown形式のリンク・埋め込み（[text](href "title")）
+const MARKDOWN_LINK_PATTERN = /(`+)[^`\n]*?\1|(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?)\)/g;
+
+export class WikiLinks {
+  /**
+   * 本文のWikiLinkと埋め込みを列挙する（コード内のリンクは除く）
+   * @param content Markdown本文
+   * @returns リンクの配列
+   */
+  static parse(content: string): WikiLink[] {
+    const links: WikiLink[] = [];
+    this.replace(content, link => {
+      links.push(link);
+      return null;
+    });
+    return links;
+  }
+
+  /**
+   * 本文のWikiLinkと埋め込みを置き換える（コード内のリンクは変更しない）
+   * @param content Markdown本文
+   * @param replacer リンクを受け取り、置き換え後の文字列を返す関数（nullの場合は変更しない）
+   * @returns 置き換え後の本文
+   */
+  static replace(content: string, replacer: (link: WikiLink) => string | null): string {
+    return this.replaceOutsideCode(content, WIKILINK_PATTERN, (raw, code, embed, inner) => {
+      if (code) {
+        return raw;
+      }
+      return replacer(this.parseInner(raw, embed === '!', inner)) ?? raw;
+    });
+  }
+
+  /**
+   * 本文のMarkdown形式のリンクと埋め込みを置き換える（コード内のリンクは変更しない）
+   * @param content Markdown本文
+   * @param replacer リンクを受け取り、置き換え後の文字列を返す関数（nullの場合は変更しない）
+   * @returns 置き換え後の本文
+   */
+  static replaceMarkdownLinks(content: string, replacer: (link: MarkdownLink) => string | null): string {
+    return this.replaceOutsideCode(content, MARKDOWN_LINK_PATTERN, (raw, code, embed, text, href, title) => {
+      if (code) {
+        return raw;
+      }
+      return replacer({ raw, embed: embed === '!', text, href, title }) ?? raw;
+    });
+  }
+
+  /**
+   * Markdown形式のリンクの文字列を組み立てる
+   * @param link リンク
+   * @returns [text](href "title") 形式の文字列
+   */
+  static formatMarkdownLink(link: Pick<MarkdownLink, 'embed' | 'text' | 'href' | 'title'>): string {
+    return `${link.embed ? '!' : ''}[${link.text}](${link.href}${link.title})`;
+  }
+
+  /**
+   * コードブロックとインラインコードの外側でパターンに一致する部分を置き換える
+   * @param content Markdown本文
+   * @param pattern インラインコードを最初のグループとするパターン
+   * @param replacer 一致した部分の置き換え（インラインコードはそのまま返す）
+   * @returns 置き換え後の本文
+   */
+  private static replaceOutsideCode(
+    content: string,
+    pattern: RegExp,
+    replacer: (raw: string, ...groups: string[]) => string
+  ): string {
+    const lines = content.split('\n');
+    const fences = MarkdownSyntax.scanFences(lines);
+
+    return lines
+      .map((line, i) => {
+        if (fences[i] !== 'text') {
+          return line;
+        }
+
+        return line.replace(pattern, replacer);
+      })
+      .join('\n');
+  }
+
+  /**
+   * WikiLinkの文字列を組み立てる
+   * @param link リンク
+   * @returns [[target#subpath|alias]] 形式の文字列
+   */
+  static format(link: Pick<WikiLink, 'embed' | 'target' | 'subpath' | 'alias' | 'aliasSeparator'>): string {
+    const alias = link.alias !== undefined ? `${link.aliasSeparator}${link.alias}` : '';
+    return `${link.embed ? '!' : ''}[[${link.target}${link.subpath}${alias}]]`;
+  }
+
+  /**
+   * リンク先をVault内のノートのパスに解決する
+   * パスを含む場合はVaultルートまたはリンク元のフォルダからの相対パス、
+   * ファイル名のみの場合は同じフォルダのノート、次に最も浅い階層のノートを優先する
+   * @param target リンク先（拡張子 .md は省略可）
+   * @param fromPath リンク元のノートのパス
+   * @param files Vault内のMarkdownファイルの一覧
+   * @returns ノートのパス（見つからない場合null）
+   */
+  static resolve(target: string, fromPath: string, files: string[]): string | null {
+    const name = target.trim().replace(/\.md$/, '');
+    if (!name) {
+      return null;
+    }
+
+    const folder = fromPath.split('/').slice(0, -1).join('/');
+    const withFolder = (path: string) => (folder ? `${folder}/${path}` : path);
+
+    if (name.includes('/')) {
+      const candidates = [`${name}.md`, withFolder(`${name}.md`)];
+      return candidates.find(candidate => files.includes(candidate)) ?? null;
+    }
+
+    const matches = files.filter(file => file.split('/').pop() === `${name}.md`);
+    if (matches.length === 0) {
+      return null;
+    }
+    return matches.find(file => file === withFolder(`${name}.md`))
+      ?? matches.sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b))[0];
+  }
+
+  /**
+   * [[ ]] の内側をリンク先・見出しやブロックの指定・表示名に分ける
+   * @param raw リンク全体
+   * @param embed 埋め込みか
+   * @param inner [[ ]] の内側
+   * @returns リンク
+   */
+  private static parseInner(raw: string, embed: boolean, inner: string): WikiLink {
+    // テーブル内では表示名の区切りが \| になる
+    const aliasMatch = inner.match(/\\?\|/);
+    const pathPart = aliasMatch ? inner.slice(0, aliasMatch.index) : inner;
+    const hashIndex = pathPart.indexOf('#');
+
+    return {
+      raw,
+      embed,
+      target: hashIndex === -1 ? pathPart : pathPart.slice(0, hashIndex),
+      subpath: hashIndex === -1 ? '' : pathPart.slice(hashIndex),
+      alias: aliasMatch ? inner.slice(aliasMatch.index! + aliasMatch[0].length) : undefined,
+      aliasSeparator: aliasMatch ? aliasMatch[0] : '|'
+    };
+  }
+}